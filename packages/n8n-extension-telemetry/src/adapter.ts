@@ -0,0 +1,565 @@
+/**
+ * n8n Hook Adapter
+ *
+ * Normalizes the hook signatures of different n8n versions into the
+ * TelemetryHook lifecycle API. The argument shape is detected at runtime,
+ * so the same hooks object works across versions:
+ *
+ * - External hooks
+ *   - `workflow.preExecute(workflow, mode)` or `(workflowData, { executionId, mode, retryOf })`
+ *   - `workflow.postExecute(run, workflowData, executionId)`,
+ *     `(workflowData, { executionId, status, error })` or `(runData, workflowData, executionData)`
+ *   - `node.preExecute(nodeName, nodeType, executionData)` or `(nodeName, nodeType, workflowData, runData)`
+ *   - `node.postExecute(...)` with the same arguments plus output data or an error
+ *
+ * - Lifecycle hooks, called with `this` set to the execution's hooks object
+ *   (`executionId`, `workflowData`, `mode`, `retryOf`)
+ *   - `workflowExecuteBefore()`, `workflowExecuteAfter(run)`
+ *   - `nodeExecuteBefore(nodeName)`, `nodeExecuteAfter(nodeName, taskData)`
+ *
+ * - Event emitter payloads (see attachToEventEmitter)
+ *
+ * Versions whose pre-execute hook carries no execution ID start tracking
+ * lazily on the first hook that does.
+ * An execution that ends in the waiting state (Wait node) is paused, and
+ * resumed when a hook sees it start again.
+ *
+ * Versions that never call the node hooks get their node events rebuilt
+ * from the run's `resultData.runData` when the workflow ends.
+ *
+ * A W3C `traceparent` on the trigger item's headers (e.g. a Webhook call)
+ * joins the execution to the caller's trace.
+ */
+
+import { TelemetryHook } from './hook';
+import { ParentExecution } from './tracker';
+import { RunData, WorkflowNode } from './run-data';
+import { flattenItems } from './payload-sample';
+
+// ============ Normalized Shapes ============
+
+type AnyRecord = Record<string, unknown>;
+
+interface WorkflowInfo {
+  id?: string | number;
+  name?: string;
+  // An array in workflow data, a name-keyed map on Workflow instances
+  nodes?: Array<{ id?: string; name: string; type: string }> | Record<string, { id?: string; type: string }>;
+  tags?: Array<string | { name?: string }>;
+}
+
+interface RunInfo {
+  status?: string;
+  finished?: boolean;
+  error?: unknown;
+  lastNodeExecuted?: string;
+  waitTill?: Date;
+  runData?: RunData;
+}
+
+/**
+ * Everything a hook call tells us about its execution
+ */
+export interface HookCall {
+  executionId?: string;
+  workflow?: WorkflowInfo;
+  mode?: string;
+  retryOf?: string;
+  parentExecution?: ParentExecution;
+  /**
+   * Inbound W3C traceparent from the trigger data
+   */
+  traceparent?: string;
+  run?: RunInfo;
+}
+
+/**
+ * Node details read from a node hook's arguments
+ */
+export interface NodeCall {
+  nodeName: string;
+  nodeType?: string;
+  nodeId?: string;
+  inputItemsCount?: number;
+  outputItemsCount?: number;
+  // Item JSON, for payload samples
+  inputItems?: unknown[];
+  outputItems?: unknown[];
+  // Raw `main` arrays, counted and flattened only once the node is tracked
+  inputData?: unknown[];
+  outputData?: unknown[];
+  error?: unknown;
+}
+
+export type HookProvider = () => TelemetryHook;
+
+export type ExternalHookFunction = (this: unknown, ...args: unknown[]) => Promise<void>;
+
+export type ExternalHooks = Record<string, ExternalHookFunction[]>;
+
+const FAILED_STATUSES = ['error', 'failed', 'crashed', 'canceled'];
+
+// ============ Shape Detection ============
+
+function isRecord(value: unknown): value is AnyRecord {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value) return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function isWorkflow(value: AnyRecord): boolean {
+  return 'nodes' in value || ('name' in value && 'id' in value && !('executionId' in value));
+}
+
+function readRun(value: AnyRecord): RunInfo | undefined {
+  // IRun: { data: { resultData }, status, finished }
+  const data = isRecord(value.data) ? value.data : undefined;
+  const resultData = isRecord(data?.resultData)
+    ? data!.resultData as AnyRecord
+    : isRecord(value.resultData) ? value.resultData : undefined;
+  
+  if (!resultData && !('status' in value) && !('finished' in value)) {
+    return undefined;
+  }
+  
+  return {
+    status: asString(value.status),
+    finished: typeof value.finished === 'boolean' ? value.finished : undefined,
+    error: resultData?.error ?? value.error,
+    lastNodeExecuted: asString(resultData?.lastNodeExecuted),
+    waitTill: toDate(value.waitTill ?? data?.waitTill),
+    runData: isRecord(resultData?.runData) ? resultData!.runData as RunData : undefined,
+  };
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Caller of a sub-workflow execution, from `parentExecution` on the
+ * execution data (or on the run's data)
+ */
+function readParent(value: AnyRecord): ParentExecution | undefined {
+  const parent = isRecord(value.parentExecution)
+    ? value.parentExecution
+    : isRecord(value.data) && isRecord(value.data.parentExecution) ? value.data.parentExecution : undefined;
+  const executionId = asString(parent?.executionId);
+  if (!executionId) return undefined;
+  
+  return {
+    executionId,
+    workflowId: asString(parent!.workflowId),
+    nodeName: asString(parent!.nodeName),
+  };
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!isRecord(headers)) return undefined;
+  
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() !== name) continue;
+    return asString(Array.isArray(value) ? value[0] : value);
+  }
+  return undefined;
+}
+
+/**
+ * `traceparent` given directly, or on the headers of a trigger item waiting
+ * in the execution's start stack (where n8n puts a Webhook node's output)
+ */
+function readTraceparent(value: AnyRecord): string | undefined {
+  const direct = asString(value.traceparent) ?? readHeader(value.headers, 'traceparent');
+  if (direct) return direct;
+  
+  for (const source of [value, value.data]) {
+    if (!isRecord(source) || !isRecord(source.executionData)) continue;
+    
+    const stack = source.executionData.nodeExecutionStack;
+    if (!Array.isArray(stack)) continue;
+    
+    for (const entry of stack) {
+      const main = isRecord(entry) && isRecord(entry.data) ? entry.data.main : undefined;
+      const item = Array.isArray(main) && Array.isArray(main[0]) ? main[0][0] : undefined;
+      const json = isRecord(item) ? item.json : undefined;
+      const traceparent = isRecord(json) ? readHeader(json.headers, 'traceparent') : undefined;
+      if (traceparent) return traceparent;
+    }
+  }
+  return undefined;
+}
+
+function mergeRun(current: RunInfo | undefined, next: RunInfo): RunInfo {
+  if (!current) return next;
+  
+  return {
+    status: current.status ?? next.status,
+    finished: current.finished ?? next.finished,
+    error: current.error ?? next.error,
+    lastNodeExecuted: current.lastNodeExecuted ?? next.lastNodeExecuted,
+    waitTill: current.waitTill ?? next.waitTill,
+    runData: current.runData ?? next.runData,
+  };
+}
+
+/**
+ * Collect execution details from the hook's `this` and any record arguments
+ */
+export function readHookCall(thisArg: unknown, args: unknown[]): HookCall {
+  const call: HookCall = {};
+  
+  for (const value of [thisArg, ...args]) {
+    if (!isRecord(value)) continue;
+    
+    call.executionId ??= asString(value.executionId);
+    call.mode ??= asString(value.mode);
+    call.retryOf ??= asString(value.retryOf);
+    call.parentExecution ??= readParent(value);
+    call.traceparent ??= readTraceparent(value);
+    
+    if (!call.workflow) {
+      if (isRecord(value.workflowData)) {
+        call.workflow = value.workflowData as WorkflowInfo;
+      } else if (isRecord(value.workflow)) {
+        call.workflow = value.workflow as WorkflowInfo;
+      } else if (isWorkflow(value)) {
+        call.workflow = value as WorkflowInfo;
+      }
+    }
+    
+    if (value !== thisArg && value !== call.workflow) {
+      const run = readRun(value);
+      if (run) call.run = mergeRun(call.run, run);
+    }
+  }
+  
+  return call;
+}
+
+function findNode(workflow: WorkflowInfo | undefined, nodeName: string): { id?: string; type?: string } | undefined {
+  const nodes = workflow?.nodes;
+  if (!nodes) return undefined;
+  
+  return Array.isArray(nodes) ? nodes.find(n => n.name === nodeName) : nodes[nodeName];
+}
+
+function listNodes(workflow: WorkflowInfo | undefined): WorkflowNode[] {
+  const nodes = workflow?.nodes;
+  if (!nodes) return [];
+  
+  return Array.isArray(nodes)
+    ? nodes
+    : Object.entries(nodes).map(([name, node]) => ({ id: node.id, name, type: node.type }));
+}
+
+// Tags are names or tag entities, depending on where the workflow came from
+function listTags(workflow: WorkflowInfo | undefined): string[] | undefined {
+  return workflow?.tags
+    ?.map(tag => typeof tag === 'string' ? tag : tag?.name)
+    .filter((name): name is string => typeof name === 'string');
+}
+
+function toError(value: unknown, fallback: string): Error {
+  if (value instanceof Error) return value;
+  
+  if (isRecord(value) && typeof value.message === 'string') {
+    const error = new Error(value.message);
+    if (typeof value.name === 'string') error.name = value.name;
+    // Keep the original stack, not one pointing into the adapter
+    error.stack = typeof value.stack === 'string' ? value.stack : undefined;
+    return error;
+  }
+  
+  return new Error(value ? String(value) : fallback);
+}
+
+/**
+ * Total items across all outputs of a `main` connection
+ */
+function countItems(main: unknown): number | undefined {
+  if (!Array.isArray(main)) return undefined;
+  
+  return main.reduce<number>((total, output) => total + (Array.isArray(output) ? output.length : 0), 0);
+}
+
+function readMain(args: unknown[], key: 'inputData' | 'outputData' | 'data'): unknown[] | undefined {
+  for (const value of args) {
+    if (isRecord(value) && isRecord(value[key])) {
+      const main = (value[key] as AnyRecord).main;
+      if (Array.isArray(main)) return main;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read node ID, item data and error from the arguments after the node name/type:
+ * `{ node, inputData, outputData, error }`, task data `{ data, executionStatus, error }`,
+ * or a raw output array and Error
+ */
+export function readNodeCall(nodeName: string, nodeType: string | undefined, args: unknown[]): NodeCall {
+  const call: NodeCall = { nodeName, nodeType };
+  
+  for (const value of args) {
+    if (value instanceof Error) {
+      call.error ??= value;
+    } else if (Array.isArray(value)) {
+      call.outputData ??= value;
+    } else if (isRecord(value)) {
+      if (isRecord(value.node)) call.nodeId ??= asString(value.node.id);
+      if (value.error) call.error ??= value.error;
+      if (value.executionStatus === 'error') call.error ??= 'Node execution failed';
+    }
+  }
+  
+  call.inputData = readMain(args, 'inputData');
+  call.outputData = readMain(args, 'outputData') ?? readMain(args, 'data') ?? call.outputData;
+  
+  return call;
+}
+
+/**
+ * Item counts, plus item JSON when payloads are captured, from the raw data.
+ * Called only for tracked nodes, so skipped executions never walk their items.
+ */
+function readItems(hook: TelemetryHook, node: NodeCall): NodeCall {
+  const capture = hook.isCapturingPayloads();
+  
+  return {
+    ...node,
+    inputItemsCount: node.inputItemsCount ?? countItems(node.inputData),
+    outputItemsCount: node.outputItemsCount ?? countItems(node.outputData),
+    inputItems: node.inputItems ?? (capture ? flattenItems(node.inputData) : undefined),
+    outputItems: node.outputItems ?? (capture ? flattenItems(node.outputData) : undefined),
+  };
+}
+
+// ============ Lifecycle ============
+
+async function startWorkflow(hook: TelemetryHook, call: HookCall): Promise<void> {
+  if (!call.executionId) return;
+  
+  await hook.onWorkflowStart({
+    executionId: call.executionId,
+    workflowId: asString(call.workflow?.id) || 'unknown',
+    workflowName: call.workflow?.name || 'Unknown Workflow',
+    mode: call.mode,
+    isManual: call.mode === 'manual',
+    retryOf: call.retryOf,
+    parentExecution: call.parentExecution,
+    traceparent: call.traceparent,
+    tags: listTags(call.workflow),
+  });
+}
+
+async function ensureStarted(hook: TelemetryHook, call: HookCall): Promise<boolean> {
+  if (!call.executionId || hook.isSkipped(call.executionId)) return false;
+  
+  if (!await hook.isTracking(call.executionId)) {
+    await startWorkflow(hook, call);
+  }
+  return true;
+}
+
+async function endWorkflow(hook: TelemetryHook, call: HookCall): Promise<void> {
+  if (!call.executionId) return;
+  // Skipped executions still end, so the hook can forget them
+  if (!await hook.isTracking(call.executionId) && !hook.isSkipped(call.executionId)) return;
+  
+  const run = call.run || {};
+  
+  // Waiting executions resume later; they have not ended
+  if (run.status === 'waiting' || run.waitTill) {
+    await hook.onWorkflowPause({
+      executionId: call.executionId,
+      waitingNode: run.lastNodeExecuted,
+      waitTill: run.waitTill,
+    });
+    return;
+  }
+  
+  const failed = run.error !== undefined && run.error !== null
+    || (run.status !== undefined && FAILED_STATUSES.includes(run.status));
+  
+  if (failed) {
+    const fallback = run.status === 'canceled' ? 'Workflow execution canceled' : 'Workflow failed';
+    await hook.onWorkflowFail({
+      executionId: call.executionId,
+      error: toError(run.error, fallback),
+      errorNode: run.lastNodeExecuted,
+      runData: run.runData,
+      nodes: listNodes(call.workflow),
+    });
+  } else {
+    await hook.onWorkflowComplete({
+      executionId: call.executionId,
+      mode: call.mode,
+      runData: run.runData,
+      nodes: listNodes(call.workflow),
+    });
+  }
+}
+
+async function startNode(hook: TelemetryHook, call: HookCall, node: NodeCall): Promise<void> {
+  if (!await ensureStarted(hook, call)) return;
+  
+  node = readItems(hook, node);
+  const known = findNode(call.workflow, node.nodeName);
+  
+  await hook.onNodeStart({
+    executionId: call.executionId!,
+    nodeName: node.nodeName,
+    nodeType: node.nodeType || known?.type || 'unknown',
+    nodeId: node.nodeId ?? known?.id,
+    inputItemsCount: node.inputItemsCount,
+    inputItems: node.inputItems,
+  });
+}
+
+async function endNode(hook: TelemetryHook, call: HookCall, node: NodeCall): Promise<void> {
+  if (!await ensureStarted(hook, call)) return;
+  
+  node = readItems(hook, node);
+  const known = findNode(call.workflow, node.nodeName);
+  const params = {
+    executionId: call.executionId!,
+    nodeName: node.nodeName,
+    nodeType: node.nodeType || known?.type || 'unknown',
+    nodeId: node.nodeId ?? known?.id,
+    inputItems: node.inputItems,
+    outputItems: node.outputItems,
+  };
+  
+  if (node.error) {
+    await hook.onNodeFail({ ...params, error: toError(node.error, 'Node execution failed') });
+  } else {
+    await hook.onNodeComplete({ ...params, outputItemsCount: node.outputItemsCount });
+  }
+}
+
+// ============ External Hooks ============
+
+function guarded(name: string, handler: (hook: TelemetryHook, thisArg: unknown, args: unknown[]) => Promise<void>, getHook: HookProvider): ExternalHookFunction {
+  return async function (this: unknown, ...args: unknown[]): Promise<void> {
+    try {
+      const hook = getHook();
+      if (!hook.isEnabled()) return;
+      await handler(hook, this, args);
+    } catch (error) {
+      console.error(`[Telemetry] Error in ${name} hook:`, error);
+    }
+  };
+}
+
+/**
+ * Build the hooks object n8n loads, covering every supported hook name
+ */
+export function createExternalHooks(getHook: HookProvider): ExternalHooks {
+  const onWorkflowBefore = async (hook: TelemetryHook, thisArg: unknown, args: unknown[]) => {
+    await ensureStarted(hook, readHookCall(thisArg, args));
+  };
+  
+  const onWorkflowAfter = async (hook: TelemetryHook, thisArg: unknown, args: unknown[]) => {
+    const call = readHookCall(thisArg, args);
+    // workflow.postExecute(run, workflowData, executionId)
+    call.executionId ??= args.map(asString).find(Boolean);
+    await endWorkflow(hook, call);
+  };
+  
+  // node.*Execute(nodeName, nodeType, ...)
+  const onNodeBefore = async (hook: TelemetryHook, thisArg: unknown, args: unknown[]) => {
+    const [nodeName, nodeType, ...rest] = args;
+    await startNode(hook, readHookCall(thisArg, rest), readNodeCall(String(nodeName), asString(nodeType), rest));
+  };
+  
+  const onNodeAfter = async (hook: TelemetryHook, thisArg: unknown, args: unknown[]) => {
+    const [nodeName, nodeType, ...rest] = args;
+    await endNode(hook, readHookCall(thisArg, rest), readNodeCall(String(nodeName), asString(nodeType), rest));
+  };
+  
+  // node*Execute*(nodeName, ...) with the execution on `this`
+  const onLifecycleNodeBefore = async (hook: TelemetryHook, thisArg: unknown, args: unknown[]) => {
+    const [nodeName, ...rest] = args;
+    await startNode(hook, readHookCall(thisArg, rest), readNodeCall(String(nodeName), undefined, rest));
+  };
+  
+  const onLifecycleNodeAfter = async (hook: TelemetryHook, thisArg: unknown, args: unknown[]) => {
+    const [nodeName, ...rest] = args;
+    await endNode(hook, readHookCall(thisArg, rest), readNodeCall(String(nodeName), undefined, rest));
+  };
+  
+  return {
+    'workflow.preExecute': [guarded('workflow.preExecute', onWorkflowBefore, getHook)],
+    'workflow.postExecute': [guarded('workflow.postExecute', onWorkflowAfter, getHook)],
+    'node.preExecute': [guarded('node.preExecute', onNodeBefore, getHook)],
+    'node.postExecute': [guarded('node.postExecute', onNodeAfter, getHook)],
+    workflowExecuteBefore: [guarded('workflowExecuteBefore', onWorkflowBefore, getHook)],
+    workflowExecuteAfter: [guarded('workflowExecuteAfter', onWorkflowAfter, getHook)],
+    nodeExecuteBefore: [guarded('nodeExecuteBefore', onLifecycleNodeBefore, getHook)],
+    nodeExecuteAfter: [guarded('nodeExecuteAfter', onLifecycleNodeAfter, getHook)],
+  };
+}
+
+// ============ Event Emitter ============
+
+/**
+ * For n8n versions that use an EventEmitter for execution events.
+ * Payloads carry executionId, workflowId and workflowName, plus
+ * nodeName/nodeType for node events and error/errorNode for failures.
+ */
+export function attachToEventEmitter(
+  eventEmitter: { on: (event: string, handler: (...args: unknown[]) => void) => void },
+  getHook: HookProvider
+): void {
+  const on = (event: string, handler: (hook: TelemetryHook, data: AnyRecord) => Promise<void>) => {
+    eventEmitter.on(event, (data: unknown) => {
+      if (!isRecord(data)) return;
+      handler(getHook(), data).catch(error => {
+        console.error(`[Telemetry] Error handling ${event}:`, error);
+      });
+    });
+  };
+  
+  const callOf = (data: AnyRecord): HookCall => ({
+    executionId: asString(data.executionId),
+    workflow: { id: asString(data.workflowId), name: asString(data.workflowName) },
+    mode: asString(data.mode),
+    parentExecution: readParent(data),
+  });
+  
+  on('workflowExecuteStart', (hook, data) => ensureStarted(hook, callOf(data)).then(() => undefined));
+  
+  on('workflowExecuteComplete', (hook, data) => endWorkflow(hook, { ...callOf(data), run: { status: 'success' } }));
+  
+  on('workflowExecuteError', (hook, data) => endWorkflow(hook, {
+    ...callOf(data),
+    run: { error: data.error ?? 'Workflow failed', lastNodeExecuted: asString(data.errorNode) },
+  }));
+  
+  const nodeOf = (data: AnyRecord): NodeCall => ({
+    nodeName: String(data.nodeName),
+    nodeType: asString(data.nodeType),
+    nodeId: asString(data.nodeId),
+    inputItemsCount: typeof data.inputItemsCount === 'number' ? data.inputItemsCount : undefined,
+    outputItemsCount: typeof data.outputItemsCount === 'number' ? data.outputItemsCount : undefined,
+  });
+  
+  on('nodeExecuteStart', (hook, data) => startNode(hook, callOf(data), nodeOf(data)));
+  
+  on('nodeExecuteComplete', (hook, data) => endNode(hook, callOf(data), nodeOf(data)));
+  
+  on('nodeExecuteError', (hook, data) => endNode(hook, callOf(data), {
+    ...nodeOf(data),
+    error: data.error ?? 'Node execution failed',
+  }));
+  
+  console.log('[Telemetry] Attached to n8n event emitter');
+}
@@ -0,0 +1,136 @@
+/**
+ * Dispatch Queue
+ *
+ * Decouples hook calls from transport latency: events are queued and sent
+ * in order by a background worker, so a slow or failing transport never
+ * delays the n8n execution that emitted them.
+ */
+
+import { TelemetryEvent } from '@n8n-telemetry/core';
+
+// ============ Configuration ============
+
+/**
+ * What to drop when the queue is full: the oldest queued event, or the one
+ * being added
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest';
+
+export interface DispatchQueueConfig {
+  /**
+   * Maximum number of queued events (default: 10000)
+   */
+  maxSize?: number;
+  /**
+   * Default: drop-oldest
+   */
+  overflow?: OverflowPolicy;
+}
+
+export interface DispatchStats {
+  enqueued: number;
+  sent: number;
+  /**
+   * Events discarded because the queue was full
+   */
+  dropped: number;
+  /**
+   * Events the transport rejected
+   */
+  failed: number;
+  pending: number;
+}
+
+const DEFAULT_MAX_SIZE = 10000;
+
+// ============ Dispatch Queue ============
+
+export class DispatchQueue {
+  private send: (event: TelemetryEvent) => Promise<void>;
+  private maxSize: number;
+  private overflow: OverflowPolicy;
+  private queue: TelemetryEvent[] = [];
+  private worker?: Promise<void>;
+  private stats = { enqueued: 0, sent: 0, dropped: 0, failed: 0 };
+  
+  constructor(send: (event: TelemetryEvent) => Promise<void>, config: DispatchQueueConfig = {}) {
+    this.send = send;
+    this.maxSize = Math.max(1, config.maxSize ?? DEFAULT_MAX_SIZE);
+    this.overflow = config.overflow ?? 'drop-oldest';
+  }
+  
+  /**
+   * Queue an event and return immediately
+   */
+  enqueue(event: TelemetryEvent): void {
+    if (this.queue.length >= this.maxSize) {
+      this.stats.dropped++;
+      if (this.overflow === 'drop-newest') return;
+      this.queue.shift();
+    }
+    
+    this.queue.push(event);
+    this.stats.enqueued++;
+    
+    if (!this.worker) {
+      this.worker = this.work();
+    }
+  }
+  
+  private async work(): Promise<void> {
+    // Let the hook call that queued the event return first
+    await new Promise(resolve => setImmediate(resolve));
+    
+    let event: TelemetryEvent | undefined;
+    while ((event = this.queue.shift())) {
+      try {
+        await this.send(event);
+        this.stats.sent++;
+      } catch (error) {
+        this.stats.failed++;
+        console.error('[Telemetry] Failed to send event:', error);
+      }
+    }
+    
+    // Cleared in the same tick as the empty check, so no enqueue can be missed
+    this.worker = undefined;
+  }
+  
+  /**
+   * Wait until every queued event was handled, or until the timeout.
+   * Returns false when events were still pending at the timeout.
+   */
+  async drain(timeoutMs?: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = timeoutMs === undefined
+      ? undefined
+      : new Promise<false>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      });
+    
+    try {
+      while (this.worker) {
+        const done = this.worker.then(() => true as const);
+        if (!await (deadline ? Promise.race([done, deadline]) : done)) return false;
+      }
+      return true;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  
+  /**
+   * Drop every queued event, e.g. when giving up at shutdown. Returns how
+   * many were dropped.
+   */
+  discard(): number {
+    const count = this.queue.length;
+    this.queue = [];
+    this.stats.dropped += count;
+    return count;
+  }
+  
+  getStats(): DispatchStats {
+    return { ...this.stats, pending: this.queue.length };
+  }
+}
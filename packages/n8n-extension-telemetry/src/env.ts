@@ -0,0 +1,211 @@
+/**
+ * Configuration from Environment
+ *
+ * Builds the TelemetryHook config from TELEMETRY_* environment variables,
+ * shared by the external hooks entry points
+ */
+
+import * as os from 'os';
+import {
+  DEFAULT_DETECTORS,
+  DEFAULT_REDACT_FIELDS,
+  EncryptionConfig,
+  FileRotationConfig,
+  PseudonymizationConfig,
+  RedactionDetector,
+  RedactionPolicy,
+  parseEncryptionKeys,
+  parsePseudonymizationKeys,
+  parseRedactionEntries,
+} from '@n8n-telemetry/core';
+import { TelemetryHookConfig } from './hook';
+import { WorkflowFilters } from './filters';
+import { SamplingConfig } from './sampling';
+import { PayloadSampleLimits } from './payload-sample';
+
+function getRotationFromEnv(): FileRotationConfig | undefined {
+  const maxBytes = process.env.TELEMETRY_FILE_MAX_BYTES;
+  const interval = process.env.TELEMETRY_FILE_ROTATE;
+  const maxSegments = process.env.TELEMETRY_FILE_MAX_SEGMENTS;
+  
+  if (!maxBytes && interval !== 'daily' && interval !== 'hourly') {
+    return undefined;
+  }
+  
+  return {
+    maxBytes: maxBytes ? parseInt(maxBytes, 10) : undefined,
+    interval: interval === 'daily' || interval === 'hourly' ? interval : undefined,
+    compress: process.env.TELEMETRY_FILE_COMPRESS === 'true',
+    maxSegments: maxSegments ? parseInt(maxSegments, 10) : undefined,
+  };
+}
+
+function getListFromEnv(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function getFiltersFromEnv(): WorkflowFilters | undefined {
+  const filters: WorkflowFilters = {
+    include: {
+      workflowIds: getListFromEnv('TELEMETRY_INCLUDE_WORKFLOW_IDS'),
+      namePatterns: getListFromEnv('TELEMETRY_INCLUDE_WORKFLOW_NAMES'),
+      tags: getListFromEnv('TELEMETRY_INCLUDE_TAGS'),
+    },
+    exclude: {
+      workflowIds: getListFromEnv('TELEMETRY_EXCLUDE_WORKFLOW_IDS'),
+      namePatterns: getListFromEnv('TELEMETRY_EXCLUDE_WORKFLOW_NAMES'),
+      tags: getListFromEnv('TELEMETRY_EXCLUDE_TAGS'),
+    },
+  };
+  
+  const isSet = (rules: WorkflowFilters['include']) => !!rules && Object.values(rules).some(Boolean);
+  return isSet(filters.include) || isSet(filters.exclude) ? filters : undefined;
+}
+
+/**
+ * Built-in detectors by name, or none for 'none'
+ */
+function getDetectorsFromEnv(): RedactionDetector[] | undefined {
+  const names = getListFromEnv('TELEMETRY_REDACT_DETECTORS');
+  if (!names) return undefined;
+  if (names.includes('none')) return [];
+  
+  return DEFAULT_DETECTORS.filter(detector => names.includes(detector.name));
+}
+
+/**
+ * Extra key names and path rules, e.g. `ssn,$..email,!llm.responded:payload.prompt`
+ */
+function getRedactRulesFromEnv(): { redactFields?: string[]; redactPolicy?: RedactionPolicy } {
+  const entries = getListFromEnv('TELEMETRY_REDACT_RULES');
+  if (!entries) return {};
+  
+  const { fields, policy } = parseRedactionEntries(entries);
+  return {
+    redactFields: fields.length > 0 ? [...DEFAULT_REDACT_FIELDS, ...fields] : undefined,
+    redactPolicy: policy,
+  };
+}
+
+function getNumberFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? parseFloat(value) : undefined;
+}
+
+/**
+ * Keys as `id:base64key` entries, active key first. Unlike pseudonymization,
+ * invalid keys throw: falling back would write events unencrypted.
+ */
+function getEncryptionFromEnv(): EncryptionConfig | undefined {
+  const entries = getListFromEnv('TELEMETRY_ENCRYPTION_KEYS');
+  return entries ? { keys: parseEncryptionKeys(entries) } : undefined;
+}
+
+/**
+ * Keys as `id:secret` entries, active key first. Invalid keys are reported
+ * and leave redaction on `[REDACTED]`.
+ */
+function getPseudonymizationFromEnv(): PseudonymizationConfig | undefined {
+  const entries = getListFromEnv('TELEMETRY_PSEUDONYM_KEYS');
+  if (!entries) return undefined;
+  
+  try {
+    return {
+      keys: parsePseudonymizationKeys(entries),
+      length: getNumberFromEnv('TELEMETRY_PSEUDONYM_LENGTH'),
+    };
+  } catch (error) {
+    console.error('[Telemetry] Ignoring TELEMETRY_PSEUDONYM_KEYS:', (error as Error).message);
+    return undefined;
+  }
+}
+
+function getPayloadSampleLimitsFromEnv(): PayloadSampleLimits {
+  return {
+    maxItems: getNumberFromEnv('TELEMETRY_PAYLOAD_MAX_ITEMS'),
+    maxDepth: getNumberFromEnv('TELEMETRY_PAYLOAD_MAX_DEPTH'),
+    maxStringLength: getNumberFromEnv('TELEMETRY_PAYLOAD_MAX_STRING_LENGTH'),
+    maxBytes: getNumberFromEnv('TELEMETRY_PAYLOAD_MAX_BYTES'),
+  };
+}
+
+function getSamplingFromEnv(): SamplingConfig | undefined {
+  const rate = getNumberFromEnv('TELEMETRY_SAMPLE_RATE');
+  const tailRate = getNumberFromEnv('TELEMETRY_TAIL_SAMPLE_RATE');
+  
+  // Entries of the form workflowId:rate
+  let workflowRates: Record<string, number> | undefined;
+  for (const entry of getListFromEnv('TELEMETRY_WORKFLOW_SAMPLE_RATES') || []) {
+    const separator = entry.lastIndexOf(':');
+    if (separator <= 0) continue;
+    workflowRates = { ...workflowRates, [entry.slice(0, separator)]: parseFloat(entry.slice(separator + 1)) };
+  }
+  
+  if (rate === undefined && tailRate === undefined && !workflowRates) {
+    return undefined;
+  }
+  
+  return {
+    rate,
+    workflowRates,
+    tail: tailRate === undefined ? undefined : {
+      rate: tailRate,
+      keepFailed: process.env.TELEMETRY_TAIL_KEEP_FAILED !== 'false',
+      keepScoreBelow: getNumberFromEnv('TELEMETRY_TAIL_KEEP_SCORE_BELOW'),
+      keepDurationAboveMs: getNumberFromEnv('TELEMETRY_TAIL_KEEP_DURATION_MS'),
+    },
+  };
+}
+
+/**
+ * Role of this n8n process, from TELEMETRY_PROCESS_ROLE or the n8n command
+ * (`n8n worker`, `n8n webhook`, otherwise main)
+ */
+export function detectProcessRole(): string {
+  if (process.env.TELEMETRY_PROCESS_ROLE) return process.env.TELEMETRY_PROCESS_ROLE;
+  
+  const command = process.argv.slice(2).find(arg => !arg.startsWith('-'));
+  return command === 'worker' || command === 'webhook' ? command : 'main';
+}
+
+export function defaultWorkerId(): string {
+  return process.env.TELEMETRY_WORKER_ID || `${os.hostname()}:${process.pid}`;
+}
+
+export function getConfigFromEnv(): TelemetryHookConfig {
+  return {
+    enabled: process.env.TELEMETRY_ENABLED !== 'false',
+    filters: getFiltersFromEnv(),
+    sampling: getSamplingFromEnv(),
+    filePath: process.env.TELEMETRY_FILE_PATH || './data/events.jsonl',
+    fileRotation: getRotationFromEnv(),
+    fileEncryption: getEncryptionFromEnv(),
+    httpEndpoint: process.env.TELEMETRY_HTTP_ENDPOINT,
+    httpOutboxDir: process.env.TELEMETRY_HTTP_OUTBOX_DIR,
+    httpOutboxMaxBytes: getNumberFromEnv('TELEMETRY_HTTP_OUTBOX_MAX_BYTES'),
+    enableEvaluation: process.env.TELEMETRY_ENABLE_EVAL !== 'false',
+    executionTtlMs: process.env.TELEMETRY_EXECUTION_TTL_MS
+      ? parseInt(process.env.TELEMETRY_EXECUTION_TTL_MS, 10)
+      : undefined,
+    pausedStateDir: process.env.TELEMETRY_PAUSED_STATE_DIR,
+    executionStateDir: process.env.TELEMETRY_STATE_DIR,
+    queueSize: getNumberFromEnv('TELEMETRY_QUEUE_SIZE'),
+    queueOverflow: process.env.TELEMETRY_QUEUE_OVERFLOW === 'drop-newest' ? 'drop-newest' : 'drop-oldest',
+    closeTimeoutMs: getNumberFromEnv('TELEMETRY_CLOSE_TIMEOUT_MS'),
+    debug: process.env.TELEMETRY_DEBUG === 'true',
+    capturePayloads: process.env.TELEMETRY_CAPTURE_PAYLOADS === 'true',
+    payloadSampleLimits: getPayloadSampleLimitsFromEnv(),
+    redactPayloads: process.env.TELEMETRY_REDACT_PAYLOADS !== 'false',
+    redactDetectors: getDetectorsFromEnv(),
+    ...getRedactRulesFromEnv(),
+    pseudonymize: getPseudonymizationFromEnv(),
+    defaultMetadata: {
+      environment: process.env.NODE_ENV || 'development',
+      n8n_version: process.env.N8N_VERSION,
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Workflow Filters
+ *
+ * Allow and deny lists deciding which workflows are tracked, matched by
+ * workflow ID, name pattern or tag
+ */
+
+export interface WorkflowFilterRules {
+  workflowIds?: string[];
+  /**
+   * Case-insensitive glob patterns (`*` and `?`) matched against the whole name
+   */
+  namePatterns?: string[];
+  tags?: string[];
+}
+
+export interface WorkflowFilters {
+  /**
+   * When any rule is set, only matching workflows are tracked
+   */
+  include?: WorkflowFilterRules;
+  /**
+   * Matching workflows are never tracked (takes precedence over include)
+   */
+  exclude?: WorkflowFilterRules;
+}
+
+export interface FilteredWorkflow {
+  id: string;
+  name: string;
+  tags?: string[];
+}
+
+const patternCache: Map<string, RegExp> = new Map();
+
+function globToRegExp(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('')
+      .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    regex = new RegExp(`^${source}$`, 'i');
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function hasRules(rules: WorkflowFilterRules | undefined): rules is WorkflowFilterRules {
+  return !!rules && (
+    (rules.workflowIds?.length ?? 0) > 0 ||
+    (rules.namePatterns?.length ?? 0) > 0 ||
+    (rules.tags?.length ?? 0) > 0
+  );
+}
+
+function matchesRules(rules: WorkflowFilterRules, workflow: FilteredWorkflow): boolean {
+  if (rules.workflowIds?.includes(workflow.id)) return true;
+  if (rules.namePatterns?.some(pattern => globToRegExp(pattern).test(workflow.name))) return true;
+  
+  const tags = (workflow.tags || []).map(tag => tag.toLowerCase());
+  return !!rules.tags?.some(tag => tags.includes(tag.toLowerCase()));
+}
+
+/**
+ * Whether a workflow passes the filters
+ */
+export function isWorkflowIncluded(filters: WorkflowFilters | undefined, workflow: FilteredWorkflow): boolean {
+  if (!filters) return true;
+  
+  if (hasRules(filters.exclude) && matchesRules(filters.exclude, workflow)) return false;
+  if (hasRules(filters.include)) return matchesRules(filters.include, workflow);
+  
+  return true;
+}
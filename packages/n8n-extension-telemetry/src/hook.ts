@@ -32,6 +32,8 @@
  * 2. If you have access to n8n source/enterprise, integrate this hook for automatic capture
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Transport,
@@ -40,41 +42,191 @@ import {
   MultiTransport,
   TelemetryEvent,
   NodeContext,
+  NodePayloadSamples,
   ExecutionContext,
+  EvalCompletedEvent,
+  ProcessorPipeline,
+  EventProcessor,
+  NamedEventProcessor,
+  ProcessorStats,
   createWorkflowStartedEvent,
   createWorkflowCompletedEvent,
   createWorkflowFailedEvent,
+  createWorkflowAbandonedEvent,
+  createWorkflowPausedEvent,
+  createWorkflowResumedEvent,
   createNodeStartedEvent,
   createNodeCompletedEvent,
   createNodeFailedEvent,
+  FileRotationConfig,
+  TransportConfig,
+  DEFAULT_DETECTORS,
+  DEFAULT_REDACT_FIELDS,
+  DEFAULT_REDACT_POLICY,
+  RedactionDetector,
+  RedactionPolicy,
+  PseudonymizationConfig,
+  EncryptionConfig,
+  LineCipher,
+  redactEvent,
+  redactValue,
+  RedactionOptions,
   WorkflowEvaluator,
   EvaluatorConfig,
+  TraceContext,
+  parseTraceparent,
+  formatTraceparent,
+  generateSpanId,
+  deriveWorkflowSpanId,
 } from '@n8n-telemetry/core';
-import { ExecutionTracker, executionTracker } from './tracker';
+import {
+  ExecutionTracker,
+  ExecutionState,
+  ParentExecution,
+  SerializedExecutionState,
+  TimingEntry,
+  executionTracker,
+  listInFlightNodes,
+} from './tracker';
+import { RunData, WorkflowNode, readNodeRuns } from './run-data';
+import { ExecutionStateStore, FileExecutionStateStore, StoredExecutionState } from './state-store';
+import { detectProcessRole, defaultWorkerId } from './env';
+import { WorkflowFilters, isWorkflowIncluded } from './filters';
+import { PayloadSample, PayloadSampleLimits, samplePayload } from './payload-sample';
+import { DispatchQueue, DispatchStats, OverflowPolicy } from './dispatcher';
+import { SamplingConfig, ExecutionOutcome, getHeadSampleRate, isHeadSampled, decideTailSample } from './sampling';
 
 // ============ Hook Configuration ============
 
 export interface TelemetryHookConfig {
+  /**
+   * Global kill switch; when false, no execution is tracked
+   */
+  enabled?: boolean;
+  /**
+   * Which workflows to track, by ID, name pattern or tag
+   */
+  filters?: WorkflowFilters;
+  /**
+   * Keep only some executions' events (everything is kept when unset)
+   */
+  sampling?: SamplingConfig;
+  /**
+   * Run on each event before it is sent, to enrich, drop or rewrite it
+   */
+  processors?: Array<EventProcessor | NamedEventProcessor>;
   filePath?: string;
+  fileRotation?: FileRotationConfig;
+  /**
+   * Encrypt the event file's lines with AES-256-GCM
+   */
+  fileEncryption?: EncryptionConfig;
   httpEndpoint?: string;
+  /**
+   * Spool for undelivered HTTP events. The outbox takes one writing process
+   * per directory, so in queue mode (with `executionStateDir`) each process
+   * spools to a subdirectory named after its worker ID.
+   */
+  httpOutboxDir?: string;
+  /**
+   * Cap on the outbox size; the oldest undelivered events are dropped past it
+   */
+  httpOutboxMaxBytes?: number;
   enableEvaluation?: boolean;
   evaluatorConfig?: EvaluatorConfig;
+  /**
+   * Add truncated, redacted samples of node input and output items to node
+   * completed and failed events
+   */
   capturePayloads?: boolean;
+  /**
+   * Size limits for the payload samples
+   */
+  payloadSampleLimits?: PayloadSampleLimits;
   redactPayloads?: boolean;
   redactFields?: string[];
+  /**
+   * Patterns redacted inside string values (default: the core DEFAULT_DETECTORS)
+   */
+  redactDetectors?: RedactionDetector[];
+  /**
+   * Deny and allow rules by path (default: the core DEFAULT_REDACT_POLICY)
+   */
+  redactPolicy?: RedactionPolicy;
+  /**
+   * Replace redacted values with keyed `pii:` tokens instead of `[REDACTED]`
+   */
+  pseudonymize?: PseudonymizationConfig;
   defaultSessionId?: string;
   defaultMetadata?: Record<string, unknown>;
+  /**
+   * Emit workflow.abandoned for executions idle longer than this (disabled when unset)
+   */
+  executionTtlMs?: number;
+  /**
+   * How often to check for abandoned executions (default: min(executionTtlMs, 60s))
+   */
+  reaperIntervalMs?: number;
+  /**
+   * Directory for the state of executions paused by a Wait node, so they can
+   * resume in another process (default: `paused` in executionStateDir, or
+   * kept in memory)
+   */
+  pausedStateDir?: string;
+  /**
+   * Directory shared by all n8n processes for in-flight execution state, for
+   * queue mode where one process starts an execution and a worker runs it
+   * (process-local when unset)
+   */
+  executionStateDir?: string;
+  /**
+   * Custom store for in-flight execution state (takes precedence over executionStateDir)
+   */
+  executionStateStore?: ExecutionStateStore;
+  /**
+   * Role of this n8n process (default: detected from the n8n command)
+   */
+  processRole?: string;
+  /**
+   * ID of this process (default: hostname:pid)
+   */
+  workerId?: string;
+  /**
+   * Events waiting to be sent beyond this many are dropped (default: 10000)
+   */
+  queueSize?: number;
+  /**
+   * Which events a full queue drops (default: drop-oldest)
+   */
+  queueOverflow?: OverflowPolicy;
+  /**
+   * How long close() waits for queued events to be sent (default: 5000)
+   */
+  closeTimeoutMs?: number;
   debug?: boolean;
 }
 
+/**
+ * What a paused execution needs to resume: its tracker state and the events
+ * emitted so far, for the final evaluation
+ */
+export interface PausedExecution {
+  state: SerializedExecutionState;
+  events: TelemetryEvent[];
+}
+
 const DEFAULT_CONFIG: TelemetryHookConfig = {
+  enabled: true,
   filePath: './data/events.jsonl',
   enableEvaluation: true,
-  capturePayloads: true,
+  capturePayloads: false,
   redactPayloads: true,
   debug: false,
 };
 
+const MAX_EXCLUDED_EXECUTIONS = 10000;
+const DEFAULT_CLOSE_TIMEOUT_MS = 5000;
+
 // ============ Telemetry Hook Class ============
 
 export class TelemetryHook {
@@ -82,24 +234,102 @@ export class TelemetryHook {
   private transport: Transport;
   private tracker: ExecutionTracker;
   private evaluator: WorkflowEvaluator;
+  private pipeline: ProcessorPipeline;
+  private dispatcher: DispatchQueue;
   private executionEvents: Map<string, TelemetryEvent[]> = new Map();
+  private pausedExecutions: Map<string, PausedExecution> = new Map();
+  // Executions rejected by the filters or head sampling, so later hooks skip them cheaply
+  private excludedExecutions: Set<string> = new Set();
+  private reaperTimer?: NodeJS.Timeout;
   
   constructor(config: TelemetryHookConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.tracker = executionTracker;
+    this.config.processRole ??= detectProcessRole();
+    this.config.workerId ??= defaultWorkerId();
+    
+    if (this.config.executionStateDir) {
+      this.config.pausedStateDir ??= path.join(this.config.executionStateDir, 'paused');
+    }
+    
+    const store = this.config.executionStateStore
+      ?? (this.config.executionStateDir ? new FileExecutionStateStore(this.config.executionStateDir, {
+        encryption: this.config.fileEncryption,
+        redact: state => this.redactStoredState(state),
+      }) : undefined);
+    this.tracker = store ? new ExecutionTracker(store) : executionTracker;
+    
     this.evaluator = new WorkflowEvaluator(config.evaluatorConfig);
-    this.transport = this.createTransport();
+    this.pipeline = new ProcessorPipeline(this.config.processors);
+    this.dispatcher = new DispatchQueue(event => this.deliver(event), {
+      maxSize: this.config.queueSize,
+      overflow: this.config.queueOverflow,
+    });
+    // A disabled hook gets a transport with no targets, so it touches nothing
+    this.transport = this.isEnabled() ? this.createTransport() : new MultiTransport([]);
+    
+    if (this.isEnabled() && this.config.executionTtlMs) {
+      const intervalMs = this.config.reaperIntervalMs ?? Math.min(this.config.executionTtlMs, 60000);
+      this.reaperTimer = setInterval(() => {
+        this.reapStaleExecutions().catch(error => {
+          console.error('[Telemetry] Failed to reap stale executions:', error);
+        });
+      }, intervalMs);
+      this.reaperTimer.unref();
+    }
+  }
+  
+  /**
+   * The processes of a queue-mode setup usually share one configured outbox
+   * directory; each gets its own subdirectory within it
+   */
+  private getOutboxDir(dir: string): string {
+    if (!this.config.executionStateDir) return dir;
+    return path.join(dir, encodeURIComponent(this.config.workerId!));
+  }
+  
+  /**
+   * Redaction settings shared by every transport. Unset options fall back to
+   * the core defaults here, since transports spread their config over their
+   * defaults and an explicit undefined would turn a default off.
+   */
+  private getRedactionConfig(): TransportConfig {
+    return {
+      redactPayloads: this.config.redactPayloads ?? true,
+      redactFields: this.config.redactFields ?? DEFAULT_REDACT_FIELDS,
+      redactDetectors: this.config.redactDetectors ?? DEFAULT_DETECTORS,
+      redactPolicy: this.config.redactPolicy ?? DEFAULT_REDACT_POLICY,
+      ...(this.config.pseudonymize ? { pseudonymize: this.config.pseudonymize } : {}),
+    };
+  }
+  
+  /**
+   * The same settings for redacting values in the hook itself (payload
+   * samples, persisted state); undefined when redaction is off
+   */
+  private getRedactionOptions(path: string[]): RedactionOptions | undefined {
+    const redaction = this.getRedactionConfig();
+    if (!redaction.redactPayloads) return undefined;
+    
+    return {
+      fields: redaction.redactFields,
+      detectors: redaction.redactDetectors,
+      policy: redaction.redactPolicy,
+      pseudonymize: redaction.pseudonymize,
+      path,
+    };
   }
   
   private createTransport(): Transport {
     const transports: Transport[] = [];
+    const redaction = this.getRedactionConfig();
     
     if (this.config.filePath) {
       transports.push(new FileTransport({
         filePath: this.config.filePath,
         createDir: true,
-        redactPayloads: this.config.redactPayloads,
-        redactFields: this.config.redactFields,
+        rotation: this.config.fileRotation,
+        encryption: this.config.fileEncryption,
+        ...redaction,
       }));
     }
     
@@ -107,8 +337,10 @@ export class TelemetryHook {
       transports.push(new HttpTransport({
         endpoint: this.config.httpEndpoint,
         buffered: true,
-        redactPayloads: this.config.redactPayloads,
-        redactFields: this.config.redactFields,
+        outbox: this.config.httpOutboxDir
+          ? { dir: this.getOutboxDir(this.config.httpOutboxDir), maxBytes: this.config.httpOutboxMaxBytes }
+          : undefined,
+        ...redaction,
       }));
     }
     
@@ -116,35 +348,70 @@ export class TelemetryHook {
       transports.push(new FileTransport({
         filePath: './data/events.jsonl',
         createDir: true,
+        encryption: this.config.fileEncryption,
+        ...redaction,
       }));
     }
     
     return transports.length === 1 ? transports[0] : new MultiTransport(transports);
   }
   
-  private getExecutionContext(executionId: string): ExecutionContext | undefined {
-    const state = this.tracker.getExecution(executionId);
-    if (!state) return undefined;
-    
+  private async getExecutionContext(executionId: string): Promise<ExecutionContext | undefined> {
+    const state = await this.tracker.getExecution(executionId);
+    return state && this.toExecutionContext(state);
+  }
+  
+  private toExecutionContext(state: ExecutionState): ExecutionContext {
     return {
       execution_id: state.executionId,
       workflow_id: state.workflowId,
       workflow_name: state.workflowName,
       run_id: state.executionId,
       session_id: state.sessionId || this.config.defaultSessionId,
+      trace_id: state.trace.trace_id,
+      span_id: state.trace.span_id,
+      parent_span_id: state.trace.parent_span_id,
+      parent_execution_id: state.parent?.executionId,
+      parent_workflow_id: state.parent?.workflowId,
+      parent_node_name: state.parent?.nodeName,
+      process_role: this.config.processRole,
+      worker_id: this.config.workerId,
+      sample_rate: state.sampleRate,
       metadata: { ...this.config.defaultMetadata, ...state.metadata },
     };
   }
   
+  /**
+   * Node events get their own span, parented to the workflow span
+   */
+  private getNodeExecutionContext(context: ExecutionContext, timing?: TimingEntry): ExecutionContext {
+    return {
+      ...context,
+      span_id: timing?.spanId ?? generateSpanId(),
+      parent_span_id: context.span_id,
+    };
+  }
+  
   private async sendEvent(event: TelemetryEvent): Promise<void> {
     const executionEvents = this.executionEvents.get(event.execution_id) || [];
     executionEvents.push(event);
     this.executionEvents.set(event.execution_id, executionEvents);
     
-    await this.transport.send(event);
+    // Tail sampling holds events until the execution ends
+    if (this.config.sampling?.tail) return;
+    
+    this.dispatcher.enqueue(event);
+  }
+  
+  private async deliver(event: TelemetryEvent): Promise<void> {
+    // Processors get a copy, so changes made in place never reach the events kept for evaluation
+    const processed = this.pipeline.size > 0 ? await this.pipeline.process(structuredClone(event)) : event;
+    if (!processed) return;
+    
+    await this.transport.send(processed);
     
     if (this.config.debug) {
-      console.log(`[Telemetry] ${event.event_type}:`, JSON.stringify(event, null, 2));
+      console.log(`[Telemetry] ${processed.event_type}:`, JSON.stringify(processed, null, 2));
     }
   }
   
@@ -157,52 +424,290 @@ export class TelemetryHook {
     isManual?: boolean;
     retryOf?: string;
     metadata?: Record<string, unknown>;
+    /**
+     * Inbound W3C traceparent header, to join the caller's trace
+     */
+    traceparent?: string;
+    /**
+     * Calling execution, for sub-workflow executions (Execute Workflow node)
+     */
+    parentExecution?: ParentExecution;
+    /**
+     * Workflow tags, for the filters
+     */
+    tags?: string[];
   }): Promise<void> {
-    const { executionId, workflowId, workflowName, mode, sessionId, isManual, retryOf, metadata } = params;
+    const { executionId, workflowId, workflowName, mode, sessionId, isManual, retryOf, metadata, traceparent } = params;
+    if (this.isSkipped(executionId)) return;
+    
+    // Several n8n hooks can announce the same execution
+    if (await this.tracker.getExecution(executionId)) return;
+    
+    if (!isWorkflowIncluded(this.config.filters, { id: workflowId, name: workflowName, tags: params.tags })) {
+      this.excludeExecution(executionId);
+      return;
+    }
+    
+    // n8n starts a paused execution again when its Wait node fires
+    if (await this.onWorkflowResume({ executionId })) return;
+    
+    const sampleRate = this.config.sampling && getHeadSampleRate(this.config.sampling, workflowId);
+    if (sampleRate !== undefined && !isHeadSampled(executionId, sampleRate)) {
+      this.excludeExecution(executionId);
+      return;
+    }
     
-    this.tracker.startExecution(executionId, workflowId, workflowName, sessionId, metadata);
+    const caller = params.parentExecution && await this.tracker.getExecution(params.parentExecution.executionId);
+    const parent = params.parentExecution && {
+      ...params.parentExecution,
+      workflowId: params.parentExecution.workflowId ?? caller?.workflowId,
+      nodeName: params.parentExecution.nodeName ?? (caller && this.findCallingNode(caller)),
+    };
+    
+    const upstream = parseTraceparent(traceparent);
+    let trace: TraceContext | undefined = upstream && {
+      trace_id: upstream.trace_id,
+      span_id: deriveWorkflowSpanId(executionId),
+      parent_span_id: upstream.parent_span_id,
+    };
+    
+    // A sub-workflow joins its caller's trace, under the calling node's span
+    if (!trace && caller) {
+      trace = {
+        trace_id: caller.trace.trace_id,
+        span_id: deriveWorkflowSpanId(executionId),
+        parent_span_id: (parent?.nodeName && caller.nodeTimings.get(parent.nodeName)?.[0]?.spanId) || caller.trace.span_id,
+      };
+    }
+    
+    await this.tracker.startExecution(executionId, workflowId, workflowName, sessionId, metadata, trace, parent, sampleRate);
     this.executionEvents.set(executionId, []);
     
-    const context = this.getExecutionContext(executionId)!;
+    const context = (await this.getExecutionContext(executionId))!;
     const event = createWorkflowStartedEvent(context, { mode, retry_of: retryOf, is_manual: isManual });
     await this.sendEvent(event);
   }
   
-  async onWorkflowComplete(params: { executionId: string; mode?: string }): Promise<void> {
-    const { executionId, mode } = params;
-    const context = this.getExecutionContext(executionId);
+  async onWorkflowComplete(params: {
+    executionId: string;
+    mode?: string;
+    /**
+     * n8n's resultData.runData, to reconstruct node runs the node hooks missed
+     */
+    runData?: RunData;
+    /**
+     * Workflow nodes, for the node types of reconstructed runs
+     */
+    nodes?: WorkflowNode[];
+  }): Promise<void> {
+    const { executionId, mode, runData, nodes } = params;
+    if (this.isSkipped(executionId)) {
+      this.excludedExecutions.delete(executionId);
+      return;
+    }
+    
+    const context = await this.getExecutionContext(executionId);
     if (!context) return;
     
-    const { duration, nodeCount } = this.tracker.completeExecution(executionId);
-    const event = createWorkflowCompletedEvent(context, duration, nodeCount, mode);
+    if (runData) {
+      await this.backfillNodeRuns(executionId, context, runData, nodes);
+    }
+    
+    const { duration, activeDuration, runCount } = await this.tracker.completeExecution(executionId);
+    const event = createWorkflowCompletedEvent(context, duration, runCount, mode, activeDuration);
     await this.sendEvent(event);
     
-    if (this.config.enableEvaluation) {
-      await this.runEvaluation(executionId, context);
-    }
+    const evaluation = this.config.enableEvaluation ? await this.runEvaluation(executionId, context) : undefined;
+    await this.releaseSampledEvents(executionId, {
+      status: 'completed',
+      durationMs: activeDuration,
+      score: evaluation?.payload.score,
+    });
     
-    this.cleanup(executionId);
+    await this.cleanup(executionId);
   }
   
-  async onWorkflowFail(params: { executionId: string; error: Error; errorNode?: string }): Promise<void> {
-    const { executionId, error, errorNode } = params;
-    const context = this.getExecutionContext(executionId);
+  async onWorkflowFail(params: {
+    executionId: string;
+    error: Error;
+    errorNode?: string;
+    runData?: RunData;
+    nodes?: WorkflowNode[];
+  }): Promise<void> {
+    const { executionId, error, errorNode, runData, nodes } = params;
+    if (this.isSkipped(executionId)) {
+      this.excludedExecutions.delete(executionId);
+      return;
+    }
+    
+    const context = await this.getExecutionContext(executionId);
     if (!context) return;
     
-    const { duration } = this.tracker.completeExecution(executionId);
+    if (runData) {
+      await this.backfillNodeRuns(executionId, context, runData, nodes);
+    }
+    
+    const { duration, activeDuration } = await this.tracker.completeExecution(executionId);
     const event = createWorkflowFailedEvent(context, duration, {
       message: error.message,
       node: errorNode,
       type: error.name,
       stack: error.stack,
+    }, activeDuration);
+    await this.sendEvent(event);
+    
+    const evaluation = this.config.enableEvaluation ? await this.runEvaluation(executionId, context) : undefined;
+    await this.releaseSampledEvents(executionId, {
+      status: 'failed',
+      durationMs: activeDuration,
+      score: evaluation?.payload.score,
     });
+    
+    await this.cleanup(executionId);
+  }
+  
+  /**
+   * An execution was put to sleep by a Wait node. Its state is kept (in
+   * pausedStateDir when set) until it resumes, and also returned.
+   */
+  async onWorkflowPause(params: {
+    executionId: string;
+    waitingNode?: string;
+    waitTill?: Date;
+  }): Promise<PausedExecution | undefined> {
+    const { executionId, waitingNode, waitTill } = params;
+    if (this.isSkipped(executionId)) return undefined;
+    
+    const context = await this.getExecutionContext(executionId);
+    if (!context) return undefined;
+    
+    const state = (await this.tracker.pauseExecution(executionId))!;
+    const event = createWorkflowPausedEvent(context, state.activeMs, { waitingNode, waitTill });
     await this.sendEvent(event);
     
-    if (this.config.enableEvaluation) {
-      await this.runEvaluation(executionId, context);
+    const paused = this.redactPausedExecution({ state, events: this.executionEvents.get(executionId) || [] });
+    this.executionEvents.delete(executionId);
+    await this.savePausedExecution(paused);
+    
+    return paused;
+  }
+  
+  /**
+   * Continue tracking a paused execution, from the given state or the one
+   * kept at pause. Returns false when no paused state is known.
+   */
+  async onWorkflowResume(params: { executionId: string; paused?: PausedExecution }): Promise<boolean> {
+    const { executionId } = params;
+    if (this.isSkipped(executionId)) return false;
+    
+    const paused = params.paused ?? await this.takePausedExecution(executionId);
+    if (!paused) return false;
+    
+    await this.tracker.resumeExecution(paused.state);
+    this.executionEvents.set(executionId, [...paused.events]);
+    
+    const context = (await this.getExecutionContext(executionId))!;
+    const event = createWorkflowResumedEvent(context, paused.state.pausedAt);
+    await this.sendEvent(event);
+    
+    return true;
+  }
+  
+  isEnabled(): boolean {
+    return this.config.enabled !== false;
+  }
+  
+  /**
+   * Whether hooks for an execution should do nothing: telemetry is disabled
+   * or the filters excluded its workflow
+   */
+  isSkipped(executionId: string): boolean {
+    return !this.isEnabled() || this.excludedExecutions.has(executionId);
+  }
+  
+  /**
+   * Whether node item JSON is sampled into events, so callers can skip
+   * collecting items otherwise
+   */
+  isCapturingPayloads(): boolean {
+    return this.config.capturePayloads === true;
+  }
+  
+  private excludeExecution(executionId: string): void {
+    // Bounded, in case end hooks never arrive for some executions
+    if (this.excludedExecutions.size >= MAX_EXCLUDED_EXECUTIONS) {
+      this.excludedExecutions.delete(this.excludedExecutions.values().next().value!);
+    }
+    this.excludedExecutions.add(executionId);
+  }
+  
+  private pausedStatePath(executionId: string): string {
+    return path.join(this.config.pausedStateDir!, `${encodeURIComponent(executionId)}.json`);
+  }
+  
+  /**
+   * Paused state leaves the hook (to disk or the caller), so its events,
+   * metadata and the input samples of nodes still running (the Wait node)
+   * get the same redaction as events sent to the transports
+   */
+  private redactPausedExecution(paused: PausedExecution): PausedExecution {
+    if (!this.getRedactionOptions([])) return paused;
+    
+    return {
+      state: this.redactStoredState(paused.state),
+      events: paused.events.map(e => redactEvent(e, this.getRedactionConfig())),
+    };
+  }
+  
+  private redactStoredState<T extends StoredExecutionState>(state: T): T {
+    const metadataOptions = this.getRedactionOptions(['metadata']);
+    const sampleOptions = this.getRedactionOptions(['payload', 'input_sample']);
+    if (!metadataOptions || !sampleOptions) return state;
+    
+    return {
+      ...state,
+      metadata: state.metadata && redactValue(state.metadata, metadataOptions).value,
+      nodeTimings: state.nodeTimings.map(([nodeName, timings]) => [
+        nodeName,
+        timings.map(timing => timing.inputSample
+          ? { ...timing, inputSample: { ...timing.inputSample, items: redactValue(timing.inputSample.items, sampleOptions).value } }
+          : timing),
+      ]),
+    };
+  }
+  
+  private async savePausedExecution(paused: PausedExecution): Promise<void> {
+    if (!this.config.pausedStateDir) {
+      this.pausedExecutions.set(paused.state.executionId, paused);
+      return;
+    }
+    
+    // Encrypted with the event file keys, like the events themselves
+    const json = JSON.stringify(paused);
+    const data = this.config.fileEncryption ? new LineCipher(this.config.fileEncryption).encrypt(json) : json;
+    
+    await fs.promises.mkdir(this.config.pausedStateDir, { recursive: true });
+    await fs.promises.writeFile(this.pausedStatePath(paused.state.executionId), data);
+  }
+  
+  private async takePausedExecution(executionId: string): Promise<PausedExecution | undefined> {
+    const inMemory = this.pausedExecutions.get(executionId);
+    if (inMemory || !this.config.pausedStateDir) {
+      this.pausedExecutions.delete(executionId);
+      return inMemory;
     }
     
-    this.cleanup(executionId);
+    const filePath = this.pausedStatePath(executionId);
+    try {
+      const data = await fs.promises.readFile(filePath, 'utf8');
+      const json = this.config.fileEncryption ? new LineCipher(this.config.fileEncryption).decrypt(data) : data;
+      const paused = JSON.parse(json) as PausedExecution;
+      await fs.promises.unlink(filePath);
+      return paused;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
   }
   
   async onNodeStart(params: {
@@ -211,15 +716,27 @@ export class TelemetryHook {
     nodeType: string;
     nodeId?: string;
     inputItemsCount?: number;
+    /**
+     * Input item JSON, sampled when capturePayloads is on
+     */
+    inputItems?: unknown[];
   }): Promise<void> {
     const { executionId, nodeName, nodeType, nodeId, inputItemsCount } = params;
-    const context = this.getExecutionContext(executionId);
+    if (this.isSkipped(executionId)) return;
+    
+    const context = await this.getExecutionContext(executionId);
     if (!context) return;
     
     const nodeContext: NodeContext = { node_id: nodeId, node_name: nodeName, node_type: nodeType };
-    this.tracker.startNode(executionId, nodeName, nodeContext, inputItemsCount);
+    const inputSample = this.samplePayload(params.inputItems, 'input_sample');
+    const timing = await this.tracker.startNode(executionId, nodeName, nodeContext, inputItemsCount, inputSample);
+    nodeContext.run_index = timing?.runIndex;
     
-    const event = createNodeStartedEvent(context, nodeContext, inputItemsCount);
+    const event = createNodeStartedEvent(
+      this.getNodeExecutionContext(context, timing),
+      nodeContext,
+      inputItemsCount
+    );
     await this.sendEvent(event);
   }
   
@@ -229,15 +746,31 @@ export class TelemetryHook {
     nodeType: string;
     nodeId?: string;
     outputItemsCount?: number;
+    inputItems?: unknown[];
+    outputItems?: unknown[];
   }): Promise<void> {
     const { executionId, nodeName, nodeType, nodeId, outputItemsCount } = params;
-    const context = this.getExecutionContext(executionId);
+    if (this.isSkipped(executionId)) return;
+    
+    const context = await this.getExecutionContext(executionId);
     if (!context) return;
     
-    const nodeContext: NodeContext = { node_id: nodeId, node_name: nodeName, node_type: nodeType };
-    const duration = this.tracker.completeNode(executionId, nodeName);
+    const timing = await this.tracker.completeNode(executionId, nodeName);
+    const nodeContext: NodeContext = {
+      node_id: nodeId,
+      node_name: nodeName,
+      node_type: nodeType,
+      run_index: timing?.runIndex,
+    };
+    const duration = timing ? Date.now() - timing.startTime : 0;
     
-    const event = createNodeCompletedEvent(context, nodeContext, duration, outputItemsCount);
+    const event = createNodeCompletedEvent(
+      this.getNodeExecutionContext(context, timing),
+      nodeContext,
+      duration,
+      outputItemsCount,
+      this.getPayloadSamples(params.inputItems, params.outputItems, timing)
+    );
     await this.sendEvent(event);
   }
   
@@ -247,42 +780,261 @@ export class TelemetryHook {
     nodeType: string;
     nodeId?: string;
     error: Error;
+    inputItems?: unknown[];
+    outputItems?: unknown[];
   }): Promise<void> {
     const { executionId, nodeName, nodeType, nodeId, error } = params;
-    const context = this.getExecutionContext(executionId);
+    if (this.isSkipped(executionId)) return;
+    
+    const context = await this.getExecutionContext(executionId);
     if (!context) return;
     
-    const nodeContext: NodeContext = { node_id: nodeId, node_name: nodeName, node_type: nodeType };
-    const duration = this.tracker.failNode(executionId, nodeName);
+    const timing = await this.tracker.failNode(executionId, nodeName);
+    const nodeContext: NodeContext = {
+      node_id: nodeId,
+      node_name: nodeName,
+      node_type: nodeType,
+      run_index: timing?.runIndex,
+    };
+    const duration = timing ? Date.now() - timing.startTime : 0;
     
-    const event = createNodeFailedEvent(context, nodeContext, duration, {
+    const event = createNodeFailedEvent(this.getNodeExecutionContext(context, timing), nodeContext, duration, {
       message: error.message,
       type: error.name,
-    });
+    }, this.getPayloadSamples(params.inputItems, params.outputItems, timing));
     await this.sendEvent(event);
   }
   
-  private async runEvaluation(executionId: string, context: ExecutionContext): Promise<void> {
-    const events = this.executionEvents.get(executionId) || [];
-    if (events.length === 0) return;
+  /**
+   * Samples are redacted as they are taken, since the input sample is kept in
+   * the execution state until the node ends
+   */
+  private samplePayload(items: unknown[] | undefined, key: 'input_sample' | 'output_sample'): PayloadSample | undefined {
+    if (!this.config.capturePayloads || !items) return undefined;
+    
+    return samplePayload(
+      items,
+      this.config.payloadSampleLimits,
+      this.getRedactionOptions(['payload', key]) ?? false
+    );
+  }
+  
+  /**
+   * Samples for a node end event. The input falls back to the sample taken
+   * at node start.
+   */
+  private getPayloadSamples(
+    inputItems: unknown[] | undefined,
+    outputItems: unknown[] | undefined,
+    timing?: TimingEntry
+  ): NodePayloadSamples | undefined {
+    const input = this.samplePayload(inputItems, 'input_sample') ?? (this.config.capturePayloads ? timing?.inputSample : undefined);
+    const output = this.samplePayload(outputItems, 'output_sample');
+    if (!input && !output) return undefined;
+    
+    return {
+      input_sample: input?.items,
+      output_sample: output?.items,
+      sample_truncated: input?.truncated || output?.truncated || undefined,
+    };
+  }
+  
+  /**
+   * Emit node events for the runs in runData that the node hooks did not
+   * report, timestamped with the start and end times n8n recorded
+   */
+  private async backfillNodeRuns(
+    executionId: string,
+    context: ExecutionContext,
+    runData: RunData,
+    nodes: WorkflowNode[] = []
+  ): Promise<void> {
+    const runCounts = await this.tracker.getNodeRunCounts(executionId);
+    const runs = readNodeRuns(runData, nodeName => runCounts.get(nodeName) ?? 0);
+    const backfillContext = { ...context, metadata: { ...context.metadata, backfilled: true } };
+    
+    for (const run of runs) {
+      const node = nodes.find(n => n.name === run.nodeName);
+      const timing = await this.tracker.recordNodeRun(executionId, run.nodeName, {
+        node_id: node?.id,
+        node_name: run.nodeName,
+        node_type: node?.type || 'unknown',
+      }, run.startTime, !!run.error);
+      if (!timing) return;
+      
+      const nodeExecutionContext = this.getNodeExecutionContext(backfillContext, timing);
+      const nodeContext = timing.nodeContext!;
+      
+      const started = createNodeStartedEvent(nodeExecutionContext, nodeContext);
+      const ended = run.error
+        ? createNodeFailedEvent(nodeExecutionContext, nodeContext, run.durationMs, run.error)
+        : createNodeCompletedEvent(
+          nodeExecutionContext,
+          nodeContext,
+          run.durationMs,
+          run.outputItemsCount,
+          this.getPayloadSamples(undefined, run.outputItems)
+        );
+      
+      await this.sendEvent({ ...started, timestamp: new Date(run.startTime).toISOString() });
+      await this.sendEvent({ ...ended, timestamp: new Date(run.startTime + run.durationMs).toISOString() });
+    }
+  }
+  
+  /**
+   * End executions that saw no activity within the TTL: emit workflow.abandoned,
+   * evaluate, and release their state. Returns the number of executions reaped.
+   * Each execution is claimed first, so with a shared state store it is reaped
+   * by one process only, and not at all if it was active again meanwhile.
+   */
+  async reapStaleExecutions(): Promise<number> {
+    const ttlMs = this.config.executionTtlMs;
+    if (!ttlMs) return 0;
+    
+    const now = Date.now();
+    let reaped = 0;
+    
+    for (const candidate of await this.tracker.getStaleExecutions(ttlMs, now)) {
+      const state = await this.tracker.claimStaleExecution(candidate.executionId, ttlMs, now);
+      if (!state) continue;
+      reaped++;
+      
+      const context = this.toExecutionContext(state);
+      const event = createWorkflowAbandonedEvent(context, now - state.startTime, {
+        lastNode: state.lastNode,
+        lastSeenAt: state.lastSeenAt,
+        inFlightNodes: listInFlightNodes(state, now),
+      });
+      await this.sendEvent(event);
+      
+      const evaluation = this.config.enableEvaluation ? await this.runEvaluation(state.executionId, context) : undefined;
+      await this.releaseSampledEvents(state.executionId, {
+        status: 'abandoned',
+        durationMs: now - state.startTime,
+        score: evaluation?.payload.score,
+      });
+      
+      this.rollUpToParent(state.executionId, state.parent);
+      this.executionEvents.delete(state.executionId);
+    }
+    
+    return reaped;
+  }
+  
+  /**
+   * The node a caller is running when it starts a sub-workflow, if only one is in flight
+   */
+  private findCallingNode(caller: ExecutionState): string | undefined {
+    const running = Array.from(caller.nodeTimings.keys());
+    return running.length === 1 ? running[0] : undefined;
+  }
+  
+  /**
+   * Hand a finished sub-workflow's events to its caller, so the caller's
+   * evaluation can roll them up
+   */
+  private rollUpToParent(executionId: string, parent?: ParentExecution): void {
+    if (!parent || !this.config.evaluatorConfig?.rollUpChildExecutions) return;
+    
+    const parentEvents = this.executionEvents.get(parent.executionId);
+    const childEvents = this.executionEvents.get(executionId);
+    if (parentEvents && childEvents) {
+      parentEvents.push(...childEvents);
+    }
+  }
+  
+  /**
+   * Tail sampling: send or drop the events held for an ended execution
+   */
+  private async releaseSampledEvents(executionId: string, outcome: ExecutionOutcome): Promise<void> {
+    const tail = this.config.sampling?.tail;
+    if (!tail) return;
+    
+    const { keep, rate } = decideTailSample(tail, executionId, outcome);
+    if (!keep) return;
+    
+    // Events rolled up from sub-workflows were released with their own execution
+    const events = (this.executionEvents.get(executionId) || []).filter(e => e.execution_id === executionId);
+    for (const event of events) {
+      this.dispatcher.enqueue({ ...event, sample_rate: (event.sample_rate ?? 1) * rate });
+    }
+  }
+  
+  private async runEvaluation(executionId: string, context: ExecutionContext): Promise<EvalCompletedEvent | undefined> {
+    let events = this.executionEvents.get(executionId) || [];
+    
+    // With a shared store (queue mode) other processes, usually workers, may
+    // have reported part of the execution; their events are only in the transport
+    if (this.tracker !== executionTracker) {
+      const seen = new Set(events.map(e => e.event_id));
+      const stored = await this.transport.queryByExecution(executionId);
+      events = [...stored.filter(e => !seen.has(e.event_id)), ...events];
+    }
+    
+    if (events.length === 0) return undefined;
     
     const evalEvent = this.evaluator.evaluateAndCreateEvent(context, events);
     await this.sendEvent(evalEvent);
+    return evalEvent;
   }
   
-  private cleanup(executionId: string): void {
-    this.tracker.cleanupExecution(executionId);
+  private async cleanup(executionId: string): Promise<void> {
+    this.rollUpToParent(executionId, (await this.tracker.getExecution(executionId))?.parent);
+    await this.tracker.cleanupExecution(executionId);
     this.executionEvents.delete(executionId);
   }
   
   async close(): Promise<void> {
+    if (this.reaperTimer) {
+      clearInterval(this.reaperTimer);
+      this.reaperTimer = undefined;
+    }
+    
+    // Whatever is still queued at the deadline would reach a closed transport
+    if (!await this.dispatcher.drain(this.config.closeTimeoutMs ?? DEFAULT_CLOSE_TIMEOUT_MS)) {
+      console.error(`[Telemetry] Closed with ${this.dispatcher.discard()} events unsent`);
+    }
+    
     await this.transport.flush();
     await this.transport.close();
   }
   
   getTransport(): Transport { return this.transport; }
   
+  getProcessorStats(): ProcessorStats {
+    return this.pipeline.getStats();
+  }
+  
+  getDispatchStats(): DispatchStats {
+    return this.dispatcher.getStats();
+  }
+  
+  /**
+   * Wait for queued events to reach the transport
+   */
+  async flush(timeoutMs?: number): Promise<boolean> {
+    const drained = await this.dispatcher.drain(timeoutMs);
+    await this.transport.flush();
+    return drained;
+  }
+  
+  async isTracking(executionId: string): Promise<boolean> {
+    return await this.tracker.getExecution(executionId) !== undefined;
+  }
+  
+  /**
+   * Outbound traceparent header for an in-flight execution, for propagating
+   * the trace to downstream services
+   */
+  async getTraceparent(executionId: string): Promise<string | undefined> {
+    const state = await this.tracker.getExecution(executionId);
+    if (!state) return undefined;
+    
+    return formatTraceparent(state.trace.trace_id, state.trace.span_id);
+  }
+  
   async queryByExecution(executionId: string): Promise<TelemetryEvent[]> {
+    await this.dispatcher.drain();
     return this.transport.queryByExecution(executionId);
   }
 }
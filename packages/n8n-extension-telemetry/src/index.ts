@@ -4,9 +4,46 @@
  * Provides workflow and node lifecycle telemetry for n8n
  */
 
-export { TelemetryHook, TelemetryHookConfig, getTelemetryHook, resetTelemetryHook } from './hook';
-export { ExecutionTracker, ExecutionState, TimingEntry, executionTracker } from './tracker';
+export { TelemetryHook, TelemetryHookConfig, PausedExecution, getTelemetryHook, resetTelemetryHook } from './hook';
+export {
+  ExecutionTracker,
+  ExecutionState,
+  SerializedExecutionState,
+  ParentExecution,
+  TimingEntry,
+  executionTracker,
+} from './tracker';
 export { externalHooks } from './n8n-external-hooks';
+export {
+  createExternalHooks,
+  attachToEventEmitter,
+  readHookCall,
+  readNodeCall,
+  HookCall,
+  NodeCall,
+  HookProvider,
+  ExternalHooks,
+} from './adapter';
+export { getConfigFromEnv, detectProcessRole } from './env';
+export {
+  ExecutionStateStore,
+  InMemoryExecutionStateStore,
+  FileExecutionStateStore,
+  FileExecutionStateStoreOptions,
+  StoredExecutionState,
+} from './state-store';
+export { WorkflowFilters, WorkflowFilterRules, FilteredWorkflow, isWorkflowIncluded } from './filters';
+export {
+  SamplingConfig,
+  TailSamplingConfig,
+  ExecutionOutcome,
+  getHeadSampleRate,
+  isHeadSampled,
+  decideTailSample,
+} from './sampling';
+export { DispatchQueue, DispatchQueueConfig, DispatchStats, OverflowPolicy } from './dispatcher';
+export { PayloadSample, PayloadSampleLimits, samplePayload, flattenItems } from './payload-sample';
+export { RunData, TaskData, WorkflowNode, NodeRun, readNodeRuns } from './run-data';
 
 export {
   EventTypes,
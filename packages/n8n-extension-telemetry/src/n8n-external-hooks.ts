@@ -10,32 +10,50 @@
  *    Example: N8N_EXTERNAL_HOOKS=/path/to/n8n-external-hooks.js
  * 
  * 2. Configure the telemetry settings via environment variables:
+ *    - TELEMETRY_ENABLED: Set to 'false' to turn telemetry off (default: true)
+ *    - TELEMETRY_INCLUDE_WORKFLOW_IDS / TELEMETRY_EXCLUDE_WORKFLOW_IDS: Comma-separated workflow IDs (optional)
+ *    - TELEMETRY_INCLUDE_WORKFLOW_NAMES / TELEMETRY_EXCLUDE_WORKFLOW_NAMES: Comma-separated name patterns, `*` wildcards (optional)
+ *    - TELEMETRY_INCLUDE_TAGS / TELEMETRY_EXCLUDE_TAGS: Comma-separated workflow tags (optional)
+ *    - TELEMETRY_SAMPLE_RATE: Share of executions tracked, decided at start (default: 1)
+ *    - TELEMETRY_WORKFLOW_SAMPLE_RATES: Per-workflow rates, as comma-separated workflowId:rate (optional)
+ *    - TELEMETRY_TAIL_SAMPLE_RATE: Share of unremarkable executions kept, decided at end (optional)
+ *    - TELEMETRY_TAIL_KEEP_FAILED: Always keep failed executions when tail sampling (default: true)
+ *    - TELEMETRY_TAIL_KEEP_SCORE_BELOW: Always keep executions scoring below this (optional)
+ *    - TELEMETRY_TAIL_KEEP_DURATION_MS: Always keep executions running longer than this (optional)
  *    - TELEMETRY_FILE_PATH: Path to JSONL file (default: ./data/events.jsonl)
+ *    - TELEMETRY_FILE_MAX_BYTES: Rotate the JSONL file at this size (optional)
+ *    - TELEMETRY_FILE_ROTATE: Rotate the JSONL file 'daily' or 'hourly' (optional)
+ *    - TELEMETRY_FILE_COMPRESS: Gzip rotated files (default: false)
+ *    - TELEMETRY_FILE_MAX_SEGMENTS: Number of rotated files to keep (optional)
  *    - TELEMETRY_HTTP_ENDPOINT: HTTP endpoint for events (optional)
+ *    - TELEMETRY_HTTP_OUTBOX_DIR: Durable outbox directory for HTTP delivery (optional)
+ *    - TELEMETRY_HTTP_OUTBOX_MAX_BYTES: Drop the oldest undelivered events past this outbox size (default: 256 MiB)
  *    - TELEMETRY_ENABLE_EVAL: Enable evaluation (default: true)
+ *    - TELEMETRY_EXECUTION_TTL_MS: Report executions idle this long as abandoned (optional)
+ *    - TELEMETRY_PAUSED_STATE_DIR: Where to keep executions paused by a Wait node (optional)
+ *    - TELEMETRY_STATE_DIR: Execution state shared by all n8n processes, for queue mode (optional)
+ *    - TELEMETRY_PROCESS_ROLE: 'main', 'webhook' or 'worker' (default: from the n8n command)
+ *    - TELEMETRY_WORKER_ID: ID of this process (default: hostname:pid)
+ *    - TELEMETRY_QUEUE_SIZE: Events waiting to be sent before some are dropped (default: 10000)
+ *    - TELEMETRY_QUEUE_OVERFLOW: 'drop-oldest' or 'drop-newest' when the queue is full (default: drop-oldest)
+ *    - TELEMETRY_CLOSE_TIMEOUT_MS: How long shutdown waits for queued events (default: 5000)
+ *    - TELEMETRY_CAPTURE_PAYLOADS: Add samples of node input/output items to node events (default: false)
+ *    - TELEMETRY_PAYLOAD_MAX_ITEMS / _MAX_DEPTH / _MAX_STRING_LENGTH / _MAX_BYTES: Sample limits (default: 3 / 4 / 256 / 4096)
+ *    - TELEMETRY_REDACT_PAYLOADS: Redact sensitive fields (default: true)
+ *    - TELEMETRY_REDACT_DETECTORS: Value patterns to redact: bearer_token, jwt, email, card_number or none (default: all)
+ *    - TELEMETRY_REDACT_RULES: Extra key names and path rules, e.g. ssn,$..email,!payload.author
+ *    - TELEMETRY_PSEUDONYM_KEYS: Replace redacted values with pii:<id>:<hmac> tokens, keys as id:secret, active first (optional)
+ *    - TELEMETRY_PSEUDONYM_LENGTH: Hex characters kept per token (default: 16)
+ *    - TELEMETRY_ENCRYPTION_KEYS: Encrypt the event file with AES-256-GCM, keys as id:base64key, active first (optional)
  *    - TELEMETRY_DEBUG: Enable debug logging (default: false)
  * 
  * Note: This requires n8n to support external hooks, which may require
  * enterprise features or a custom build.
  */
 
-import { TelemetryHook, TelemetryHookConfig } from './hook';
-
-// ============ Configuration from Environment ============
-
-function getConfig(): TelemetryHookConfig {
-  return {
-    filePath: process.env.TELEMETRY_FILE_PATH || './data/events.jsonl',
-    httpEndpoint: process.env.TELEMETRY_HTTP_ENDPOINT,
-    enableEvaluation: process.env.TELEMETRY_ENABLE_EVAL !== 'false',
-    debug: process.env.TELEMETRY_DEBUG === 'true',
-    redactPayloads: process.env.TELEMETRY_REDACT_PAYLOADS !== 'false',
-    defaultMetadata: {
-      environment: process.env.NODE_ENV || 'development',
-      n8n_version: process.env.N8N_VERSION,
-    },
-  };
-}
+import { TelemetryHook } from './hook';
+import { createExternalHooks } from './adapter';
+import { getConfigFromEnv } from './env';
 
 // ============ Singleton Hook Instance ============
 
@@ -43,7 +61,7 @@ let hook: TelemetryHook | null = null;
 
 function getHook(): TelemetryHook {
   if (!hook) {
-    hook = new TelemetryHook(getConfig());
+    hook = new TelemetryHook(getConfigFromEnv());
   }
   return hook;
 }
@@ -54,143 +72,10 @@ function getHook(): TelemetryHook {
  * The external hooks object that n8n will import.
  * 
  * n8n calls these hooks at various points in the execution lifecycle.
- * The exact hook names and signatures depend on your n8n version.
+ * The exact hook names and signatures depend on your n8n version; the
+ * adapter detects the argument shape of each call.
  */
-export const externalHooks = {
-  /**
-   * Called before a workflow execution starts
-   */
-  'workflow.preExecute': [
-    async function(
-      this: unknown,
-      workflowData: { id?: string; name?: string },
-      executionData: { 
-        executionId: string; 
-        mode: string;
-        retryOf?: string;
-      }
-    ): Promise<void> {
-      try {
-        await getHook().onWorkflowStart({
-          executionId: executionData.executionId,
-          workflowId: workflowData.id || 'unknown',
-          workflowName: workflowData.name || 'Unknown Workflow',
-          mode: executionData.mode,
-          isManual: executionData.mode === 'manual',
-          retryOf: executionData.retryOf,
-        });
-      } catch (error) {
-        console.error('[Telemetry] Error in workflow.preExecute hook:', error);
-      }
-    },
-  ],
-  
-  /**
-   * Called after a workflow execution completes (success or failure)
-   */
-  'workflow.postExecute': [
-    async function(
-      this: unknown,
-      workflowData: { id?: string; name?: string },
-      executionData: {
-        executionId: string;
-        mode: string;
-        status: string;
-        error?: Error;
-        stoppedAt?: string;
-      }
-    ): Promise<void> {
-      try {
-        if (executionData.status === 'success') {
-          await getHook().onWorkflowComplete({
-            executionId: executionData.executionId,
-            mode: executionData.mode,
-          });
-        } else if (executionData.status === 'error' || executionData.status === 'failed') {
-          await getHook().onWorkflowFail({
-            executionId: executionData.executionId,
-            error: executionData.error || new Error('Workflow failed'),
-          });
-        }
-      } catch (error) {
-        console.error('[Telemetry] Error in workflow.postExecute hook:', error);
-      }
-    },
-  ],
-  
-  /**
-   * Called before a node executes
-   * Note: This hook may not be available in all n8n versions
-   */
-  'node.preExecute': [
-    async function(
-      this: unknown,
-      nodeName: string,
-      nodeType: string,
-      executionData: {
-        executionId: string;
-        node: { id?: string };
-        inputData?: { main?: Array<Array<{ json: unknown }>> };
-      }
-    ): Promise<void> {
-      try {
-        const inputItemsCount = executionData.inputData?.main?.[0]?.length || 0;
-        
-        await getHook().onNodeStart({
-          executionId: executionData.executionId,
-          nodeName,
-          nodeType,
-          nodeId: executionData.node?.id,
-          inputItemsCount,
-        });
-      } catch (error) {
-        console.error('[Telemetry] Error in node.preExecute hook:', error);
-      }
-    },
-  ],
-  
-  /**
-   * Called after a node executes
-   * Note: This hook may not be available in all n8n versions
-   */
-  'node.postExecute': [
-    async function(
-      this: unknown,
-      nodeName: string,
-      nodeType: string,
-      executionData: {
-        executionId: string;
-        node: { id?: string };
-        outputData?: { main?: Array<Array<{ json: unknown }>> };
-        error?: Error;
-      }
-    ): Promise<void> {
-      try {
-        if (executionData.error) {
-          await getHook().onNodeFail({
-            executionId: executionData.executionId,
-            nodeName,
-            nodeType,
-            nodeId: executionData.node?.id,
-            error: executionData.error,
-          });
-        } else {
-          const outputItemsCount = executionData.outputData?.main?.[0]?.length || 0;
-          
-          await getHook().onNodeComplete({
-            executionId: executionData.executionId,
-            nodeName,
-            nodeType,
-            nodeId: executionData.node?.id,
-            outputItemsCount,
-          });
-        }
-      } catch (error) {
-        console.error('[Telemetry] Error in node.postExecute hook:', error);
-      }
-    },
-  ],
-};
+export const externalHooks = createExternalHooks(getHook);
 
 // ============ Graceful Shutdown ============
 
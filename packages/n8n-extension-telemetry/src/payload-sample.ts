@@ -0,0 +1,126 @@
+/**
+ * Payload Samples
+ *
+ * Bounded, redacted copies of the items flowing into and out of a node, for
+ * debugging bad data without storing whole payloads
+ */
+
+import { RedactionOptions, redactValue } from '@n8n-telemetry/core';
+
+export interface PayloadSampleLimits {
+  /**
+   * Items kept per sample, and elements kept per nested array (default: 3)
+   */
+  maxItems?: number;
+  /**
+   * Object/array nesting kept below each item (default: 4)
+   */
+  maxDepth?: number;
+  /**
+   * Characters kept per string (default: 256)
+   */
+  maxStringLength?: number;
+  /**
+   * Serialized size of the whole sample (default: 4096)
+   */
+  maxBytes?: number;
+}
+
+export interface PayloadSample {
+  items: unknown[];
+  /**
+   * Whether anything was cut to fit the limits
+   */
+  truncated: boolean;
+}
+
+const DEFAULT_LIMITS: Required<PayloadSampleLimits> = {
+  maxItems: 3,
+  maxDepth: 4,
+  maxStringLength: 256,
+  maxBytes: 4096,
+};
+
+/**
+ * The JSON of each item on every output of a `main` connection
+ */
+export function flattenItems(main: unknown): unknown[] | undefined {
+  if (!Array.isArray(main)) return undefined;
+  
+  const items: unknown[] = [];
+  for (const output of main) {
+    if (!Array.isArray(output)) continue;
+    for (const item of output) {
+      items.push(item !== null && typeof item === 'object' && 'json' in item ? (item as { json: unknown }).json : item);
+    }
+  }
+  return items;
+}
+
+function truncateValue(value: unknown, depth: number, limits: Required<PayloadSampleLimits>, state: { truncated: boolean }): unknown {
+  if (typeof value === 'string') {
+    if (value.length <= limits.maxStringLength) return value;
+    state.truncated = true;
+    return `${value.slice(0, limits.maxStringLength)}…`;
+  }
+  
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'object') return String(value);
+  
+  if (depth >= limits.maxDepth) {
+    state.truncated = true;
+    return Array.isArray(value) ? `[Array(${value.length})]` : '[Object]';
+  }
+  
+  if (Array.isArray(value)) {
+    if (value.length > limits.maxItems) state.truncated = true;
+    return value.slice(0, limits.maxItems).map(item => truncateValue(item, depth + 1, limits, state));
+  }
+  
+  const result: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value)) {
+    result[key] = truncateValue(nested, depth + 1, limits, state);
+  }
+  return result;
+}
+
+/**
+ * Sample a node's items: the first few, redacted with `redaction` unless it
+ * is false (undefined redacts the default fields), then cut down to the
+ * limits. `redaction.path` is where the sample sits in the event, for the
+ * policy; each item's index is appended to it.
+ */
+export function samplePayload(
+  items: unknown[],
+  limits: PayloadSampleLimits = {},
+  redaction: RedactionOptions | false = {}
+): PayloadSample {
+  const resolved: Required<PayloadSampleLimits> = {
+    maxItems: limits.maxItems ?? DEFAULT_LIMITS.maxItems,
+    maxDepth: limits.maxDepth ?? DEFAULT_LIMITS.maxDepth,
+    maxStringLength: limits.maxStringLength ?? DEFAULT_LIMITS.maxStringLength,
+    maxBytes: limits.maxBytes ?? DEFAULT_LIMITS.maxBytes,
+  };
+  const state = { truncated: items.length > resolved.maxItems };
+  
+  const sample: unknown[] = [];
+  let bytes = 2;
+  
+  for (const [index, item] of items.slice(0, resolved.maxItems).entries()) {
+    const redacted = redaction !== false
+      ? redactValue(item, { ...redaction, path: [...(redaction.path ?? []), String(index)] }).value
+      : item;
+    const truncated = truncateValue(redacted, 0, resolved, state);
+    
+    // Whole items only; one that does not fit ends the sample
+    bytes += Buffer.byteLength(JSON.stringify(truncated) ?? 'null') + 1;
+    if (bytes > resolved.maxBytes) {
+      state.truncated = true;
+      break;
+    }
+    sample.push(truncated);
+  }
+  
+  return { items: sample, truncated: state.truncated };
+}
@@ -0,0 +1,89 @@
+/**
+ * Run Data
+ *
+ * Reads node runs from n8n's `resultData.runData`, so node events can be
+ * reconstructed for executions whose node hooks never fired
+ */
+
+import { flattenItems } from './payload-sample';
+
+// ============ n8n Run Data Shapes ============
+
+/**
+ * One run of a node (n8n's ITaskData)
+ */
+export interface TaskData {
+  startTime?: number;
+  executionTime?: number;
+  executionStatus?: string;
+  error?: { message?: string; name?: string; description?: string } | null;
+  data?: { main?: unknown[] } | null;
+}
+
+/**
+ * Runs per node name
+ */
+export type RunData = Record<string, TaskData[]>;
+
+export interface WorkflowNode {
+  id?: string;
+  name: string;
+  type: string;
+}
+
+// ============ Node Runs ============
+
+export interface NodeRun {
+  nodeName: string;
+  runIndex: number;
+  startTime: number;
+  durationMs: number;
+  outputItemsCount?: number;
+  outputItems?: unknown[];
+  error?: { message: string; type?: string };
+}
+
+const FAILED_STATUSES = ['error', 'crashed', 'canceled'];
+
+function countOutputItems(task: TaskData): number | undefined {
+  const main = task.data?.main;
+  if (!Array.isArray(main)) return undefined;
+  
+  return main.reduce<number>((total, output) => total + (Array.isArray(output) ? output.length : 0), 0);
+}
+
+/**
+ * Node runs from runData, oldest first. The first `skipRuns(nodeName)` runs
+ * of each node are left out (those already reported by live hooks), as are
+ * runs without a start time.
+ */
+export function readNodeRuns(runData: RunData, skipRuns: (nodeName: string) => number = () => 0): NodeRun[] {
+  const runs: NodeRun[] = [];
+  
+  for (const [nodeName, tasks] of Object.entries(runData)) {
+    if (!Array.isArray(tasks)) continue;
+    
+    tasks.forEach((task, runIndex) => {
+      if (runIndex < skipRuns(nodeName) || typeof task?.startTime !== 'number') return;
+      
+      const failed = !!task.error || (task.executionStatus !== undefined && FAILED_STATUSES.includes(task.executionStatus));
+      
+      runs.push({
+        nodeName,
+        runIndex,
+        startTime: task.startTime,
+        durationMs: task.executionTime ?? 0,
+        outputItemsCount: failed ? undefined : countOutputItems(task),
+        outputItems: failed ? undefined : flattenItems(task.data?.main),
+        error: failed
+          ? {
+            message: task.error?.message || task.error?.description || `Node execution ${task.executionStatus || 'failed'}`,
+            type: task.error?.name,
+          }
+          : undefined,
+      });
+    });
+  }
+  
+  return runs.sort((a, b) => a.startTime - b.startTime);
+}
@@ -0,0 +1,104 @@
+/**
+ * Sampling
+ *
+ * Head sampling keeps a share of executions, decided when they start. Tail
+ * sampling buffers an execution's events and decides when it ends, so
+ * failures, low scores and slow runs can always be kept.
+ *
+ * Kept events carry the probability they were kept with as `sample_rate`.
+ */
+
+import { createHash } from 'crypto';
+
+export interface TailSamplingConfig {
+  /**
+   * Share of executions kept when no keep rule matches (0 to 1)
+   */
+  rate: number;
+  /**
+   * Keep every failed or abandoned execution (default: true)
+   */
+  keepFailed?: boolean;
+  /**
+   * Keep executions whose evaluation scored below this
+   */
+  keepScoreBelow?: number;
+  /**
+   * Keep executions that ran longer than this, excluding Wait pauses
+   */
+  keepDurationAboveMs?: number;
+}
+
+export interface SamplingConfig {
+  /**
+   * Head sampling: share of executions tracked (0 to 1, default: 1)
+   */
+  rate?: number;
+  /**
+   * Head sampling rates by workflow ID, overriding `rate`
+   */
+  workflowRates?: Record<string, number>;
+  /**
+   * Tail sampling, applied to executions kept by head sampling
+   */
+  tail?: TailSamplingConfig;
+}
+
+/**
+ * How an execution ended, for the tail decision
+ */
+export interface ExecutionOutcome {
+  status: 'completed' | 'failed' | 'abandoned';
+  durationMs: number;
+  score?: number;
+}
+
+function clampRate(rate: number | undefined): number {
+  if (rate === undefined || Number.isNaN(rate)) return 1;
+  return Math.min(1, Math.max(0, rate));
+}
+
+export function getHeadSampleRate(config: SamplingConfig, workflowId: string): number {
+  return clampRate(config.workflowRates?.[workflowId] ?? config.rate);
+}
+
+/**
+ * Where an execution falls in [0, 1), from a hash of its ID
+ */
+function samplePoint(executionId: string, salt = ''): number {
+  const hash = createHash('sha256').update(salt + executionId).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Head decision for an execution. It hashes the execution ID rather than
+ * rolling a die, so every n8n process reaches the same decision.
+ */
+export function isHeadSampled(executionId: string, rate: number): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+  
+  return samplePoint(executionId) < rate;
+}
+
+/**
+ * Tail decision for an ended execution. `rate` is 1 when a keep rule matched.
+ * Like the head decision it hashes the execution ID, salted so the two
+ * decisions are independent: unsalted, an execution kept at head rate r
+ * would already be known to fall below r.
+ */
+export function decideTailSample(
+  config: TailSamplingConfig,
+  executionId: string,
+  outcome: ExecutionOutcome
+): { keep: boolean; rate: number } {
+  const mustKeep =
+    ((config.keepFailed ?? true) && outcome.status !== 'completed') ||
+    (config.keepScoreBelow !== undefined && outcome.score !== undefined && outcome.score < config.keepScoreBelow) ||
+    (config.keepDurationAboveMs !== undefined && outcome.durationMs > config.keepDurationAboveMs);
+  
+  if (mustKeep) return { keep: true, rate: 1 };
+  
+  const rate = clampRate(config.rate);
+  return { keep: rate > 0 && samplePoint(executionId, 'tail:') < rate, rate };
+}
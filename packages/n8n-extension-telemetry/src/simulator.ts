@@ -54,11 +54,8 @@ export async function simulateWorkflow(
     // Start node
     await hook.onNodeStart({
       executionId,
-      workflowId: simulation.workflowId,
-      workflowName: simulation.workflowName,
       nodeName: node.name,
       nodeType: node.type,
-      nodeIndex: i,
       inputItemsCount: node.inputItems,
     });
     
@@ -70,13 +67,10 @@ export async function simulateWorkflow(
     if (node.shouldFail) {
       const error = new Error(node.errorMessage || 'Node execution failed');
       
-      await hook.onNodeError({
+      await hook.onNodeFail({
         executionId,
-        workflowId: simulation.workflowId,
-        workflowName: simulation.workflowName,
         nodeName: node.name,
         nodeType: node.type,
-        nodeIndex: i,
         error,
       });
       
@@ -86,11 +80,8 @@ export async function simulateWorkflow(
     } else {
       await hook.onNodeComplete({
         executionId,
-        workflowId: simulation.workflowId,
-        workflowName: simulation.workflowName,
         nodeName: node.name,
         nodeType: node.type,
-        nodeIndex: i,
         outputItemsCount: node.outputItems,
       });
     }
@@ -98,19 +89,14 @@ export async function simulateWorkflow(
   
   // End workflow
   if (workflowError) {
-    await hook.onWorkflowError({
+    await hook.onWorkflowFail({
       executionId,
-      workflowId: simulation.workflowId,
-      workflowName: simulation.workflowName,
       error: workflowError,
       errorNode: errorNode || undefined,
     });
   } else {
     await hook.onWorkflowComplete({
       executionId,
-      workflowId: simulation.workflowId,
-      workflowName: simulation.workflowName,
-      nodeCount: simulation.nodes.length,
       mode: 'simulation',
     });
   }
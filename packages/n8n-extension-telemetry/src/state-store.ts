@@ -0,0 +1,217 @@
+/**
+ * Execution State Store
+ *
+ * Where the ExecutionTracker keeps in-flight execution state. The in-memory
+ * store is process-local; the file store shares state between the n8n
+ * processes of a queue-mode setup (main, webhook and workers), which must
+ * then see the same directory.
+ *
+ * Changes go through `update`, which reads, changes and saves one execution's
+ * state as a unit, so processes sharing a store never lose each other's changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EncryptionConfig, LineCipher, acquireLockFile } from '@n8n-telemetry/core';
+import type { ExecutionState, TimingEntry } from './tracker';
+
+// ============ Store Interface ============
+
+export interface ExecutionStateStore {
+  get(executionId: string): Promise<ExecutionState | undefined>;
+  
+  /**
+   * Save a new state, replacing any stored one
+   */
+  set(state: ExecutionState): Promise<void>;
+  
+  /**
+   * Apply a change to a stored state and save it, with no other change to
+   * the same execution in between. Resolves with the change's result, or
+   * undefined when no state is stored.
+   */
+  update<T>(executionId: string, change: (state: ExecutionState) => T): Promise<T | undefined>;
+  
+  /**
+   * Remove and return a stored state if it matches, with no other change to
+   * the same execution in between. Of several processes taking the same
+   * execution, only one gets it.
+   */
+  take(executionId: string, matches: (state: ExecutionState) => boolean): Promise<ExecutionState | undefined>;
+  
+  delete(executionId: string): Promise<void>;
+  
+  list(): Promise<ExecutionState[]>;
+}
+
+// ============ Serialization ============
+
+/**
+ * JSON-safe form of an ExecutionState
+ */
+export interface StoredExecutionState extends Omit<ExecutionState, 'nodeTimings' | 'nodeRunCounts'> {
+  nodeTimings: Array<[string, TimingEntry[]]>;
+  nodeRunCounts: Array<[string, number]>;
+}
+
+export function toStoredState(state: ExecutionState): StoredExecutionState {
+  return {
+    ...state,
+    nodeTimings: Array.from(state.nodeTimings),
+    nodeRunCounts: Array.from(state.nodeRunCounts),
+  };
+}
+
+export function fromStoredState(stored: StoredExecutionState): ExecutionState {
+  return {
+    ...stored,
+    nodeTimings: new Map(stored.nodeTimings),
+    nodeRunCounts: new Map(stored.nodeRunCounts),
+  };
+}
+
+// ============ In-Memory Store ============
+
+export class InMemoryExecutionStateStore implements ExecutionStateStore {
+  private executions: Map<string, ExecutionState> = new Map();
+  
+  async get(executionId: string): Promise<ExecutionState | undefined> {
+    return this.executions.get(executionId);
+  }
+  
+  async set(state: ExecutionState): Promise<void> {
+    this.executions.set(state.executionId, state);
+  }
+  
+  // Changes are synchronous, so nothing can run between reading and saving
+  async update<T>(executionId: string, change: (state: ExecutionState) => T): Promise<T | undefined> {
+    const state = this.executions.get(executionId);
+    return state ? change(state) : undefined;
+  }
+  
+  async take(executionId: string, matches: (state: ExecutionState) => boolean): Promise<ExecutionState | undefined> {
+    const state = this.executions.get(executionId);
+    if (!state || !matches(state)) return undefined;
+    
+    this.executions.delete(executionId);
+    return state;
+  }
+  
+  async delete(executionId: string): Promise<void> {
+    this.executions.delete(executionId);
+  }
+  
+  async list(): Promise<ExecutionState[]> {
+    return Array.from(this.executions.values());
+  }
+}
+
+// ============ File Store ============
+
+export interface FileExecutionStateStoreOptions {
+  /**
+   * Encrypt the state files, as one line each, like the event file
+   */
+  encryption?: EncryptionConfig;
+  
+  /**
+   * Applied to each state before it is written, to keep metadata and payload
+   * samples on disk redacted
+   */
+  redact?: (state: StoredExecutionState) => StoredExecutionState;
+}
+
+/**
+ * One JSON file per execution, replaced atomically on each change. Updates
+ * hold `<execution>.json.lock`, so the processes sharing the directory
+ * apply their changes one after another.
+ */
+export class FileExecutionStateStore implements ExecutionStateStore {
+  private dir: string;
+  private cipher?: LineCipher;
+  private redact?: (state: StoredExecutionState) => StoredExecutionState;
+  
+  constructor(dir: string, options: FileExecutionStateStoreOptions = {}) {
+    this.dir = dir;
+    this.cipher = options.encryption && new LineCipher(options.encryption);
+    this.redact = options.redact;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  
+  private pathFor(executionId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(executionId)}.json`);
+  }
+  
+  async get(executionId: string): Promise<ExecutionState | undefined> {
+    try {
+      const data = await fs.promises.readFile(this.pathFor(executionId), 'utf8');
+      return fromStoredState(JSON.parse(this.cipher ? this.cipher.decrypt(data) : data));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+  
+  async set(state: ExecutionState): Promise<void> {
+    const filePath = this.pathFor(state.executionId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    
+    const stored = toStoredState(state);
+    const json = JSON.stringify(this.redact ? this.redact(stored) : stored);
+    
+    await fs.promises.writeFile(tempPath, this.cipher ? this.cipher.encrypt(json) : json);
+    await fs.promises.rename(tempPath, filePath);
+  }
+  
+  async update<T>(executionId: string, change: (state: ExecutionState) => T): Promise<T | undefined> {
+    const release = await acquireLockFile(`${this.pathFor(executionId)}.lock`);
+    
+    try {
+      const state = await this.get(executionId);
+      if (!state) return undefined;
+      
+      const result = change(state);
+      await this.set(state);
+      return result;
+    } finally {
+      await release();
+    }
+  }
+  
+  async take(executionId: string, matches: (state: ExecutionState) => boolean): Promise<ExecutionState | undefined> {
+    const release = await acquireLockFile(`${this.pathFor(executionId)}.lock`);
+    
+    try {
+      const state = await this.get(executionId);
+      if (!state || !matches(state)) return undefined;
+      
+      await this.delete(executionId);
+      return state;
+    } finally {
+      await release();
+    }
+  }
+  
+  async delete(executionId: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(executionId), { force: true });
+  }
+  
+  async list(): Promise<ExecutionState[]> {
+    const states: ExecutionState[] = [];
+    
+    for (const file of await fs.promises.readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      
+      // Another process may have removed it since the listing, and a corrupt
+      // or undecryptable file must not stop the others from being listed
+      try {
+        const state = await this.get(decodeURIComponent(file.slice(0, -'.json'.length)));
+        if (state) states.push(state);
+      } catch (error) {
+        console.error(`[Telemetry] Skipping unreadable execution state ${file}:`, error);
+      }
+    }
+    
+    return states;
+  }
+}
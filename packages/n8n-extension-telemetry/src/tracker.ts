@@ -2,177 +2,405 @@
  * Execution Tracker
  * 
  * Tracks in-flight workflow executions and their node timings
- * for accurate duration calculations
+ * for accurate duration calculations. State lives in an
+ * ExecutionStateStore, so every call is asynchronous.
  */
 
-import { NodeContext } from '@n8n-telemetry/core';
+import {
+  NodeContext,
+  InFlightNode,
+  TraceContext,
+  deriveTraceId,
+  deriveWorkflowSpanId,
+  generateSpanId,
+} from '@n8n-telemetry/core';
+import {
+  ExecutionStateStore,
+  InMemoryExecutionStateStore,
+  StoredExecutionState,
+  fromStoredState,
+  toStoredState,
+} from './state-store';
+import type { PayloadSample } from './payload-sample';
 
 // ============ Timing Entry ============
 
 export interface TimingEntry {
   startTime: number;
+  spanId: string;
+  runIndex: number;
   nodeContext?: NodeContext;
   inputItemsCount?: number;
+  // Captured at node start, for the node's end event
+  inputSample?: PayloadSample;
 }
 
 // ============ Execution State ============
 
+/**
+ * The execution that called a sub-workflow execution
+ */
+export interface ParentExecution {
+  executionId: string;
+  workflowId?: string;
+  nodeName?: string;
+}
+
 export interface ExecutionState {
   executionId: string;
   workflowId: string;
   workflowName: string;
   sessionId?: string;
   startTime: number;
-  nodeTimings: Map<string, TimingEntry>;
+  // Running time accumulated before the current run segment (Wait pauses excluded)
+  activeMs: number;
+  resumedAt: number;
+  // Last lifecycle activity, used to detect abandoned executions
+  lastSeenAt: number;
+  lastNode?: string;
+  trace: TraceContext;
+  parent?: ParentExecution;
+  // Head sampling rate the execution was kept with, when sampling is on
+  sampleRate?: number;
+  // Open runs per node, oldest first
+  nodeTimings: Map<string, TimingEntry[]>;
+  nodeRunCounts: Map<string, number>;
+  // Unique node names
   completedNodes: string[];
   failedNodes: string[];
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * JSON-safe snapshot of an execution, for rehydrating it after a Wait node
+ * pause (possibly in another process)
+ */
+export interface SerializedExecutionState extends StoredExecutionState {
+  pausedAt: number;
+}
+
+/**
+ * Node runs that started but never completed or failed
+ */
+export function listInFlightNodes(state: ExecutionState, now: number): InFlightNode[] {
+  const nodes: InFlightNode[] = [];
+  for (const [nodeName, open] of state.nodeTimings) {
+    for (const timing of open) {
+      nodes.push({
+        node_name: nodeName,
+        node_type: timing.nodeContext?.node_type,
+        run_index: timing.runIndex,
+        started_at: new Date(timing.startTime).toISOString(),
+        elapsed_ms: now - timing.startTime,
+      });
+    }
+  }
+  
+  return nodes;
+}
+
 // ============ Execution Tracker ============
 
 export class ExecutionTracker {
-  private executions: Map<string, ExecutionState> = new Map();
+  private store: ExecutionStateStore;
+  
+  constructor(store: ExecutionStateStore = new InMemoryExecutionStateStore()) {
+    this.store = store;
+  }
   
   /**
    * Start tracking a new workflow execution
    */
-  startExecution(
+  async startExecution(
     executionId: string,
     workflowId: string,
     workflowName: string,
     sessionId?: string,
-    metadata?: Record<string, unknown>
-  ): ExecutionState {
+    metadata?: Record<string, unknown>,
+    trace?: TraceContext,
+    parent?: ParentExecution,
+    sampleRate?: number
+  ): Promise<ExecutionState> {
     const state: ExecutionState = {
       executionId,
       workflowId,
       workflowName,
       sessionId,
       startTime: Date.now(),
+      activeMs: 0,
+      resumedAt: Date.now(),
+      lastSeenAt: Date.now(),
+      trace: trace ?? {
+        trace_id: deriveTraceId(executionId),
+        span_id: deriveWorkflowSpanId(executionId),
+      },
+      parent,
+      sampleRate,
       nodeTimings: new Map(),
+      nodeRunCounts: new Map(),
       completedNodes: [],
       failedNodes: [],
       metadata,
     };
     
-    this.executions.set(executionId, state);
+    await this.store.set(state);
     return state;
   }
   
   /**
    * Get an execution state
    */
-  getExecution(executionId: string): ExecutionState | undefined {
-    return this.executions.get(executionId);
+  getExecution(executionId: string): Promise<ExecutionState | undefined> {
+    return this.store.get(executionId);
   }
   
   /**
-   * Start tracking a node within an execution
+   * Start tracking a node run within an execution. A node that runs
+   * several times (loops, retries) gets one entry per run.
    */
   startNode(
     executionId: string,
     nodeName: string,
     nodeContext: NodeContext,
-    inputItemsCount?: number
-  ): TimingEntry | undefined {
-    const state = this.executions.get(executionId);
-    if (!state) return undefined;
-    
-    const entry: TimingEntry = {
-      startTime: Date.now(),
-      nodeContext,
-      inputItemsCount,
-    };
-    
-    state.nodeTimings.set(nodeName, entry);
-    return entry;
+    inputItemsCount?: number,
+    inputSample?: PayloadSample
+  ): Promise<TimingEntry | undefined> {
+    return this.store.update(executionId, state => {
+      this.touch(state, nodeName);
+      
+      const runIndex = state.nodeRunCounts.get(nodeName) ?? 0;
+      state.nodeRunCounts.set(nodeName, runIndex + 1);
+      
+      const entry: TimingEntry = {
+        startTime: Date.now(),
+        spanId: generateSpanId(),
+        runIndex,
+        nodeContext: { ...nodeContext, run_index: runIndex },
+        inputItemsCount,
+        inputSample,
+      };
+      
+      const open = state.nodeTimings.get(nodeName) || [];
+      open.push(entry);
+      state.nodeTimings.set(nodeName, open);
+      
+      return entry;
+    });
   }
   
   /**
-   * Complete a node and return duration
+   * Complete the oldest open run of a node and return it
    */
-  completeNode(executionId: string, nodeName: string): number {
-    const state = this.executions.get(executionId);
-    if (!state) return 0;
-    
-    const timing = state.nodeTimings.get(nodeName);
-    if (!timing) return 0;
+  completeNode(executionId: string, nodeName: string): Promise<TimingEntry | undefined> {
+    return this.store.update(executionId, state => {
+      this.touch(state, nodeName);
+      
+      const timing = this.finishRun(state, nodeName);
+      if (timing && !state.completedNodes.includes(nodeName)) {
+        state.completedNodes.push(nodeName);
+      }
+      return timing;
+    });
+  }
+  
+  /**
+   * Mark the oldest open run of a node as failed and return it
+   */
+  failNode(executionId: string, nodeName: string): Promise<TimingEntry | undefined> {
+    return this.store.update(executionId, state => {
+      this.touch(state, nodeName);
+      
+      const timing = this.finishRun(state, nodeName);
+      if (timing && !state.failedNodes.includes(nodeName)) {
+        state.failedNodes.push(nodeName);
+      }
+      return timing;
+    });
+  }
+  
+  /**
+   * Record a node run that already finished, e.g. one reconstructed from
+   * n8n's run data after the execution ended
+   */
+  recordNodeRun(
+    executionId: string,
+    nodeName: string,
+    nodeContext: NodeContext,
+    startTime: number,
+    failed: boolean
+  ): Promise<TimingEntry | undefined> {
+    return this.store.update(executionId, state => {
+      const runIndex = state.nodeRunCounts.get(nodeName) ?? 0;
+      state.nodeRunCounts.set(nodeName, runIndex + 1);
+      
+      const finished = failed ? state.failedNodes : state.completedNodes;
+      if (!finished.includes(nodeName)) {
+        finished.push(nodeName);
+      }
+      
+      return {
+        startTime,
+        spanId: generateSpanId(),
+        runIndex,
+        nodeContext: { ...nodeContext, run_index: runIndex },
+      };
+    });
+  }
+  
+  /**
+   * Number of runs started so far, per node
+   */
+  async getNodeRunCounts(executionId: string): Promise<Map<string, number>> {
+    return (await this.store.get(executionId))?.nodeRunCounts ?? new Map();
+  }
+  
+  private touch(state: ExecutionState, nodeName: string): void {
+    state.lastSeenAt = Date.now();
+    state.lastNode = nodeName;
+  }
+  
+  private finishRun(state: ExecutionState, nodeName: string): TimingEntry | undefined {
+    const open = state.nodeTimings.get(nodeName);
+    const timing = open?.shift();
     
-    const duration = Date.now() - timing.startTime;
-    state.completedNodes.push(nodeName);
+    if (open && open.length === 0) {
+      state.nodeTimings.delete(nodeName);
+    }
     
-    return duration;
+    return timing;
   }
   
   /**
-   * Mark a node as failed and return duration
+   * Get the timing of the oldest open run of a node (the one the next
+   * complete/fail call finishes)
    */
-  failNode(executionId: string, nodeName: string): number {
-    const state = this.executions.get(executionId);
-    if (!state) return 0;
+  async getNodeTiming(executionId: string, nodeName: string): Promise<TimingEntry | undefined> {
+    const state = await this.store.get(executionId);
+    if (!state) return undefined;
     
-    const timing = state.nodeTimings.get(nodeName);
-    if (!timing) return 0;
+    return state.nodeTimings.get(nodeName)?.[0];
+  }
+  
+  /**
+   * Total number of node runs started in an execution
+   */
+  private countRuns(state: ExecutionState): number {
+    let runs = 0;
+    for (const count of state.nodeRunCounts.values()) {
+      runs += count;
+    }
+    return runs;
+  }
+  
+  /**
+   * Number of distinct nodes that finished (completed or failed)
+   */
+  private countNodes(state: ExecutionState): number {
+    return new Set([...state.completedNodes, ...state.failedNodes]).size;
+  }
+  
+  /**
+   * Complete an execution and return its wall-clock and active durations
+   */
+  async completeExecution(executionId: string): Promise<{ duration: number; activeDuration: number; nodeCount: number; runCount: number }> {
+    const state = await this.store.get(executionId);
+    if (!state) return { duration: 0, activeDuration: 0, nodeCount: 0, runCount: 0 };
     
-    const duration = Date.now() - timing.startTime;
-    state.failedNodes.push(nodeName);
+    const now = Date.now();
     
-    return duration;
+    return {
+      duration: now - state.startTime,
+      activeDuration: state.activeMs + now - state.resumedAt,
+      nodeCount: this.countNodes(state),
+      runCount: this.countRuns(state),
+    };
   }
   
   /**
-   * Get node timing info
+   * Stop tracking a paused execution and return its snapshot, to be passed
+   * to resumeExecution when it continues
    */
-  getNodeTiming(executionId: string, nodeName: string): TimingEntry | undefined {
-    const state = this.executions.get(executionId);
+  async pauseExecution(executionId: string, now: number = Date.now()): Promise<SerializedExecutionState | undefined> {
+    const state = await this.store.take(executionId, () => true);
     if (!state) return undefined;
     
-    return state.nodeTimings.get(nodeName);
+    return {
+      ...toStoredState(state),
+      activeMs: state.activeMs + now - state.resumedAt,
+      pausedAt: now,
+    };
   }
   
   /**
-   * Complete an execution and return total duration
+   * Track a paused execution again from its snapshot
    */
-  completeExecution(executionId: string): { duration: number; nodeCount: number } {
-    const state = this.executions.get(executionId);
-    if (!state) return { duration: 0, nodeCount: 0 };
-    
-    const duration = Date.now() - state.startTime;
-    const nodeCount = state.completedNodes.length + state.failedNodes.length;
+  async resumeExecution(snapshot: SerializedExecutionState, now: number = Date.now()): Promise<ExecutionState> {
+    const { pausedAt: _pausedAt, ...stored } = snapshot;
+    const state: ExecutionState = {
+      ...fromStoredState(stored),
+      resumedAt: now,
+      lastSeenAt: now,
+    };
     
-    return { duration, nodeCount };
+    await this.store.set(state);
+    return state;
   }
   
   /**
    * Clean up an execution from tracking
    */
-  cleanupExecution(executionId: string): void {
-    this.executions.delete(executionId);
+  cleanupExecution(executionId: string): Promise<void> {
+    return this.store.delete(executionId);
+  }
+  
+  /**
+   * Executions with no lifecycle activity for longer than `ttlMs`
+   */
+  async getStaleExecutions(ttlMs: number, now: number = Date.now()): Promise<ExecutionState[]> {
+    return (await this.store.list()).filter(state => now - state.lastSeenAt > ttlMs);
+  }
+  
+  /**
+   * Stop tracking an execution if it is still stale, and return its state.
+   * With a shared store, only one of the processes checking it gets it; an
+   * execution active again since it was listed is left alone.
+   */
+  claimStaleExecution(executionId: string, ttlMs: number, now: number = Date.now()): Promise<ExecutionState | undefined> {
+    return this.store.take(executionId, state => now - state.lastSeenAt > ttlMs);
+  }
+  
+  /**
+   * Node runs that started but never completed or failed
+   */
+  async getInFlightNodes(executionId: string, now: number = Date.now()): Promise<InFlightNode[]> {
+    const state = await this.store.get(executionId);
+    return state ? listInFlightNodes(state, now) : [];
   }
   
   /**
    * Get all active executions (for debugging)
    */
-  getActiveExecutions(): string[] {
-    return Array.from(this.executions.keys());
+  async getActiveExecutions(): Promise<string[]> {
+    return (await this.store.list()).map(state => state.executionId);
   }
   
   /**
    * Get execution summary
    */
-  getExecutionSummary(executionId: string): {
+  async getExecutionSummary(executionId: string): Promise<{
     duration: number;
     nodeCount: number;
+    runCount: number;
     completedNodes: string[];
     failedNodes: string[];
-  } | undefined {
-    const state = this.executions.get(executionId);
+  } | undefined> {
+    const state = await this.store.get(executionId);
     if (!state) return undefined;
     
     return {
       duration: Date.now() - state.startTime,
-      nodeCount: state.completedNodes.length + state.failedNodes.length,
+      nodeCount: this.countNodes(state),
+      runCount: this.countRuns(state),
       completedNodes: [...state.completedNodes],
       failedNodes: [...state.failedNodes],
     };
@@ -0,0 +1,312 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TelemetryEvent } from '@n8n-telemetry/core';
+import { ExternalHooks, createExternalHooks, readNodeCall } from '../src/adapter';
+import { TelemetryHook } from '../src/hook';
+import { InMemoryExecutionStateStore } from '../src/state-store';
+
+// ============ Fixtures ============
+
+// Workflow data as stored (IWorkflowBase): nodes in an array
+const workflowData = {
+  id: 'wf-1',
+  name: 'Orders',
+  nodes: [
+    { id: 'node-1', name: 'Webhook', type: 'n8n-nodes-base.webhook' },
+    { id: 'node-2', name: 'HTTP Request', type: 'n8n-nodes-base.httpRequest' },
+    { id: 'node-3', name: 'Execute Workflow', type: 'n8n-nodes-base.executeWorkflow' },
+  ],
+};
+
+// Workflow instance: nodes keyed by name
+const workflowInstance = {
+  id: 'wf-1',
+  name: 'Orders',
+  nodes: {
+    'Webhook': { id: 'node-1', type: 'n8n-nodes-base.webhook' },
+    'HTTP Request': { id: 'node-2', type: 'n8n-nodes-base.httpRequest' },
+  },
+};
+
+const subWorkflowData = {
+  id: 'wf-2',
+  name: 'Enrich Order',
+  nodes: [{ id: 'node-9', name: 'Set', type: 'n8n-nodes-base.set' }],
+};
+
+function items(count: number): Array<{ json: Record<string, unknown> }> {
+  return Array.from({ length: count }, (_, index) => ({ json: { index } }));
+}
+
+// IRun of a finished execution
+function successfulRun(runData: Record<string, unknown> = {}) {
+  return {
+    finished: true,
+    status: 'success',
+    mode: 'trigger',
+    data: { resultData: { runData, lastNodeExecuted: 'HTTP Request' } },
+  };
+}
+
+// ITaskData of one node run
+function taskData(outputCount: number, extra: Record<string, unknown> = {}) {
+  return {
+    startTime: Date.now() - 20,
+    executionTime: 15,
+    executionStatus: 'success',
+    data: { main: [items(outputCount)] },
+    ...extra,
+  };
+}
+
+// ============ Harness ============
+
+interface Harness {
+  hooks: ExternalHooks;
+  call(name: string, thisArg: unknown, ...args: unknown[]): Promise<void>;
+  events(executionId: string): Promise<TelemetryEvent[]>;
+}
+
+async function withHooks(fn: (harness: Harness) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'adapter-'));
+  const hook = new TelemetryHook({
+    filePath: path.join(dir, 'events.jsonl'),
+    enableEvaluation: false,
+    executionStateStore: new InMemoryExecutionStateStore(),
+  });
+  const hooks = createExternalHooks(() => hook);
+  
+  try {
+    await fn({
+      hooks,
+      call: (name, thisArg, ...args) => hooks[name][0].call(thisArg, ...args),
+      events: async executionId => {
+        await hook.flush();
+        return hook.queryByExecution(executionId);
+      },
+    });
+  } finally {
+    await hook.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function typesOf(events: TelemetryEvent[]): string[] {
+  return events.map(event => event.event_type);
+}
+
+function payloadOf(event: TelemetryEvent): Record<string, unknown> {
+  return event.payload as Record<string, unknown>;
+}
+
+function find(events: TelemetryEvent[], type: string): TelemetryEvent {
+  const event = events.find(e => e.event_type === type);
+  assert.ok(event, `no ${type} event`);
+  return event;
+}
+
+// ============ External Hooks ============
+
+test('workflow.preExecute(workflow, mode) starts on the first node hook with an execution ID', async () => {
+  await withHooks(async ({ call, events }) => {
+    await call('workflow.preExecute', undefined, workflowInstance, 'manual');
+    await call('node.preExecute', undefined, 'HTTP Request', 'n8n-nodes-base.httpRequest', {
+      executionId: 'exec-1',
+      workflowData,
+      inputData: { main: [items(1)] },
+    });
+    await call('node.postExecute', undefined, 'HTTP Request', 'n8n-nodes-base.httpRequest', { executionId: 'exec-1', workflowData }, [items(2)]);
+    await call('workflow.postExecute', undefined, successfulRun(), workflowData, 'exec-1');
+    
+    const result = await events('exec-1');
+    assert.deepEqual(typesOf(result), ['workflow.started', 'node.started', 'node.completed', 'workflow.completed']);
+    assert.equal(result[0].workflow_name, 'Orders');
+    assert.equal(payloadOf(find(result, 'node.started')).input_items_count, 1);
+    assert.equal(payloadOf(find(result, 'node.completed')).output_items_count, 2);
+    assert.equal(find(result, 'node.completed').node_context?.node_id, 'node-2');
+  });
+});
+
+test('workflow.preExecute(workflowData, { executionId, mode, retryOf }) and postExecute(workflowData, { status, error })', async () => {
+  await withHooks(async ({ call, events }) => {
+    await call('workflow.preExecute', undefined, workflowData, { executionId: 'exec-2', mode: 'trigger', retryOf: 'exec-0' });
+    await call('workflow.postExecute', undefined, workflowData, {
+      executionId: 'exec-2',
+      status: 'error',
+      error: { message: 'Bad gateway', name: 'NodeApiError' },
+    });
+    
+    const result = await events('exec-2');
+    assert.deepEqual(typesOf(result), ['workflow.started', 'workflow.failed']);
+    assert.equal(payloadOf(result[0]).mode, 'trigger');
+    assert.equal(payloadOf(result[0]).retry_of, 'exec-0');
+    assert.equal(payloadOf(result[1]).error_message, 'Bad gateway');
+    assert.equal(payloadOf(result[1]).error_type, 'NodeApiError');
+  });
+});
+
+test('workflow.postExecute(run, workflowData, executionData) rebuilds node events from runData', async () => {
+  await withHooks(async ({ call, events }) => {
+    await call('workflow.preExecute', undefined, workflowData, { executionId: 'exec-3', mode: 'trigger' });
+    await call('workflow.postExecute', undefined, successfulRun({ 'HTTP Request': [taskData(3)] }), workflowData, { executionId: 'exec-3' });
+    
+    const result = await events('exec-3');
+    const node = find(result, 'node.completed');
+    assert.equal(node.node_context?.node_name, 'HTTP Request');
+    assert.equal(node.node_context?.node_type, 'n8n-nodes-base.httpRequest');
+    assert.equal(payloadOf(node).output_items_count, 3);
+    assert.equal(result[result.length - 1].event_type, 'workflow.completed');
+  });
+});
+
+test('node.preExecute(nodeName, nodeType, workflowData, runData) and a failing postExecute', async () => {
+  await withHooks(async ({ call, events }) => {
+    await call('workflow.preExecute', undefined, workflowData, { executionId: 'exec-4', mode: 'trigger' });
+    await call('node.preExecute', undefined, 'HTTP Request', 'n8n-nodes-base.httpRequest', workflowData, {
+      executionId: 'exec-4',
+      inputData: { main: [items(2)] },
+    });
+    await call('node.postExecute', undefined, 'HTTP Request', 'n8n-nodes-base.httpRequest', workflowData, { executionId: 'exec-4' }, new Error('Connection refused'));
+    
+    const result = await events('exec-4');
+    assert.deepEqual(typesOf(result), ['workflow.started', 'node.started', 'node.failed']);
+    assert.equal(payloadOf(result[1]).input_items_count, 2);
+    assert.equal(result[1].node_context?.node_id, 'node-2');
+    assert.equal(payloadOf(result[2]).error_message, 'Connection refused');
+  });
+});
+
+// ============ Lifecycle Hooks ============
+
+test('lifecycle hooks read the execution from `this`', async () => {
+  await withHooks(async ({ call, events }) => {
+    const hooksObject = { executionId: 'exec-5', workflowData, mode: 'webhook' };
+    
+    await call('workflowExecuteBefore', hooksObject);
+    await call('nodeExecuteBefore', hooksObject, 'HTTP Request');
+    await call('nodeExecuteAfter', hooksObject, 'HTTP Request', taskData(2));
+    await call('workflowExecuteAfter', hooksObject, successfulRun({ 'HTTP Request': [taskData(2)] }));
+    
+    const result = await events('exec-5');
+    assert.deepEqual(typesOf(result), ['workflow.started', 'node.started', 'node.completed', 'workflow.completed']);
+    assert.equal(payloadOf(result[0]).mode, 'webhook');
+    assert.equal(result[2].node_context?.node_type, 'n8n-nodes-base.httpRequest');
+    assert.equal(payloadOf(result[2]).output_items_count, 2);
+  });
+});
+
+test('lifecycle hooks read the execution from their arguments', async () => {
+  await withHooks(async ({ call, events }) => {
+    const execution = { executionId: 'exec-6', workflowData };
+    
+    await call('workflowExecuteBefore', undefined, workflowInstance, { ...execution, mode: 'manual' });
+    await call('nodeExecuteBefore', undefined, 'HTTP Request', execution);
+    await call('nodeExecuteAfter', undefined, 'HTTP Request', execution, taskData(0, {
+      executionStatus: 'error',
+      error: { message: 'Timed out', name: 'NodeOperationError' },
+    }));
+    await call('workflowExecuteAfter', undefined, successfulRun(), execution);
+    
+    const result = await events('exec-6');
+    assert.deepEqual(typesOf(result), ['workflow.started', 'node.started', 'node.failed', 'workflow.completed']);
+    assert.equal(payloadOf(result[0]).mode, 'manual');
+    assert.equal(payloadOf(result[2]).error_message, 'Timed out');
+  });
+});
+
+test('a waiting run pauses the execution and the next start resumes it', async () => {
+  await withHooks(async ({ call, events }) => {
+    const hooksObject = { executionId: 'exec-7', workflowData, mode: 'webhook' };
+    
+    await call('workflowExecuteBefore', hooksObject);
+    await call('workflowExecuteAfter', hooksObject, {
+      finished: false,
+      status: 'waiting',
+      waitTill: new Date(Date.now() + 60000).toISOString(),
+      data: { resultData: { runData: {}, lastNodeExecuted: 'Wait' } },
+    });
+    await call('workflowExecuteBefore', hooksObject);
+    await call('workflowExecuteAfter', hooksObject, successfulRun());
+    
+    const result = await events('exec-7');
+    assert.deepEqual(typesOf(result), ['workflow.started', 'workflow.paused', 'workflow.resumed', 'workflow.completed']);
+    assert.equal(payloadOf(result[1]).waiting_node, 'Wait');
+  });
+});
+
+// ============ Sub-workflows and Trace Context ============
+
+test('parentExecution links a sub-workflow to its calling node', async () => {
+  await withHooks(async ({ call, events }) => {
+    const parent = { executionId: 'exec-8', workflowData, mode: 'trigger' };
+    await call('workflowExecuteBefore', parent);
+    await call('nodeExecuteBefore', parent, 'Execute Workflow');
+    
+    // On the execution data, as n8n 1.x passes it
+    await call('workflowExecuteBefore', { executionId: 'exec-8a', workflowData: subWorkflowData, mode: 'integrated' }, subWorkflowData, {
+      parentExecution: { executionId: 'exec-8', workflowId: 'wf-1' },
+    });
+    // Nested in the run data, as other versions pass it
+    await call('workflow.preExecute', undefined, subWorkflowData, {
+      executionId: 'exec-8b',
+      mode: 'integrated',
+      data: { parentExecution: { executionId: 'exec-8', nodeName: 'Execute Workflow' } },
+    });
+    
+    const [caller] = await events('exec-8');
+    for (const executionId of ['exec-8a', 'exec-8b']) {
+      const [started] = await events(executionId);
+      assert.equal(started.parent_execution_id, 'exec-8');
+      assert.equal(started.parent_workflow_id, 'wf-1');
+      assert.equal(started.parent_node_name, 'Execute Workflow');
+      assert.equal(started.trace_id, caller.trace_id);
+    }
+  });
+});
+
+test('joins the trace of a traceparent header on the trigger item', async () => {
+  await withHooks(async ({ call, events }) => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const executionData = {
+      executionData: {
+        nodeExecutionStack: [{
+          node: { name: 'Webhook' },
+          data: { main: [[{ json: { headers: { Traceparent: `00-${traceId}-00f067aa0ba902b7-01` } } }]] },
+        }],
+      },
+    };
+    
+    await call('workflowExecuteBefore', { executionId: 'exec-9', workflowData, mode: 'webhook' }, workflowInstance, executionData);
+    
+    const [started] = await events('exec-9');
+    assert.equal(started.trace_id, traceId);
+    assert.equal(started.parent_span_id, '00f067aa0ba902b7');
+  });
+});
+
+// ============ Node Arguments ============
+
+test('reads node data from every argument shape', () => {
+  const named = readNodeCall('HTTP Request', undefined, [{
+    node: { id: 'node-2' },
+    inputData: { main: [items(1)] },
+    outputData: { main: [items(2), items(1)] },
+  }]);
+  assert.equal(named.nodeId, 'node-2');
+  assert.equal(named.inputData?.length, 1);
+  assert.equal(named.outputData?.length, 2);
+  
+  const task = readNodeCall('HTTP Request', undefined, [taskData(4)]);
+  assert.deepEqual(task.outputData, [items(4)]);
+  
+  const failedTask = readNodeCall('HTTP Request', undefined, [{ executionStatus: 'error' }]);
+  assert.equal(failedTask.error, 'Node execution failed');
+  
+  const error = new Error('boom');
+  const raw = readNodeCall('HTTP Request', 'n8n-nodes-base.httpRequest', [[items(3)], error]);
+  assert.deepEqual(raw.outputData, [items(3)]);
+  assert.equal(raw.error, error);
+});
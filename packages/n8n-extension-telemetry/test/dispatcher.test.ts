@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TelemetryEvent, createCustomEvent } from '@n8n-telemetry/core';
+import { DispatchQueue } from '../src/dispatcher';
+
+function event(name: string): TelemetryEvent {
+  return createCustomEvent({ execution_id: 'exec-1', workflow_id: 'wf-1' }, name);
+}
+
+function names(events: TelemetryEvent[]): string[] {
+  return events.map(e => (e.payload as { name: string }).name);
+}
+
+/**
+ * A send function that holds every event until released
+ */
+function gatedSend() {
+  const sent: TelemetryEvent[] = [];
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  
+  return {
+    sent,
+    release: () => release(),
+    send: async (e: TelemetryEvent) => {
+      await gate;
+      sent.push(e);
+    },
+  };
+}
+
+// ============ Sending ============
+
+test('enqueue returns before sending and events are sent in order', async () => {
+  const sent: TelemetryEvent[] = [];
+  const queue = new DispatchQueue(async e => { sent.push(e); });
+  
+  queue.enqueue(event('one'));
+  queue.enqueue(event('two'));
+  assert.deepEqual(sent, []);
+  
+  assert.equal(await queue.drain(), true);
+  assert.deepEqual(names(sent), ['one', 'two']);
+  assert.deepEqual(queue.getStats(), { enqueued: 2, sent: 2, dropped: 0, failed: 0, pending: 0 });
+});
+
+test('a failed send is counted and does not stop the queue', async () => {
+  const sent: TelemetryEvent[] = [];
+  const queue = new DispatchQueue(async e => {
+    if (names([e])[0] === 'bad') throw new Error('Connection refused');
+    sent.push(e);
+  });
+  const original = console.error;
+  console.error = () => {};
+  
+  try {
+    queue.enqueue(event('bad'));
+    queue.enqueue(event('good'));
+    await queue.drain();
+  } finally {
+    console.error = original;
+  }
+  
+  assert.deepEqual(names(sent), ['good']);
+  assert.deepEqual(queue.getStats(), { enqueued: 2, sent: 1, dropped: 0, failed: 1, pending: 0 });
+});
+
+test('events queued while draining are sent before drain resolves', async () => {
+  const sent: TelemetryEvent[] = [];
+  const queue = new DispatchQueue(async e => {
+    sent.push(e);
+    if (names([e])[0] === 'first') queue.enqueue(event('follow-up'));
+  });
+  
+  queue.enqueue(event('first'));
+  await queue.drain();
+  
+  assert.deepEqual(names(sent), ['first', 'follow-up']);
+});
+
+// ============ Overflow ============
+
+test('drop-oldest discards the oldest queued event when full', async () => {
+  const transport = gatedSend();
+  const queue = new DispatchQueue(transport.send, { maxSize: 2 });
+  
+  for (const name of ['one', 'two', 'three']) queue.enqueue(event(name));
+  transport.release();
+  await queue.drain();
+  
+  assert.deepEqual(names(transport.sent), ['two', 'three']);
+  assert.equal(queue.getStats().dropped, 1);
+});
+
+test('drop-newest discards the event being added when full', async () => {
+  const transport = gatedSend();
+  const queue = new DispatchQueue(transport.send, { maxSize: 2, overflow: 'drop-newest' });
+  
+  for (const name of ['one', 'two', 'three']) queue.enqueue(event(name));
+  transport.release();
+  await queue.drain();
+  
+  assert.deepEqual(names(transport.sent), ['one', 'two']);
+  assert.deepEqual(queue.getStats(), { enqueued: 2, sent: 2, dropped: 1, failed: 0, pending: 0 });
+});
+
+// ============ Shutdown ============
+
+test('drain gives up at the deadline and discard drops what is left', async () => {
+  const transport = gatedSend();
+  const queue = new DispatchQueue(transport.send);
+  
+  for (const name of ['one', 'two', 'three']) queue.enqueue(event(name));
+  
+  assert.equal(await queue.drain(20), false);
+  // The first event is already with the transport
+  assert.equal(queue.discard(), 2);
+  assert.deepEqual(queue.getStats(), { enqueued: 3, sent: 0, dropped: 2, failed: 0, pending: 0 });
+  
+  transport.release();
+  assert.equal(await queue.drain(), true);
+  assert.deepEqual(names(transport.sent), ['one']);
+});
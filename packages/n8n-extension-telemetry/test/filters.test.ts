@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isWorkflowIncluded } from '../src/filters';
+
+const orders = { id: 'wf-1', name: 'Orders Sync', tags: ['Production'] };
+const scratch = { id: 'wf-2', name: 'Scratch: test run?' };
+
+test('every workflow is included without filters or rules', () => {
+  assert.equal(isWorkflowIncluded(undefined, orders), true);
+  assert.equal(isWorkflowIncluded({ include: {}, exclude: { workflowIds: [] } }, orders), true);
+});
+
+test('include rules match by ID, name pattern or tag', () => {
+  assert.equal(isWorkflowIncluded({ include: { workflowIds: ['wf-1'] } }, orders), true);
+  assert.equal(isWorkflowIncluded({ include: { workflowIds: ['wf-1'] } }, scratch), false);
+  
+  // Patterns match the whole name, case-insensitively, with other characters literal
+  assert.equal(isWorkflowIncluded({ include: { namePatterns: ['orders*'] } }, orders), true);
+  assert.equal(isWorkflowIncluded({ include: { namePatterns: ['Orders'] } }, orders), false);
+  assert.equal(isWorkflowIncluded({ include: { namePatterns: ['scratch: test ru??'] } }, scratch), true);
+  assert.equal(isWorkflowIncluded({ include: { namePatterns: ['Scratch. *'] } }, scratch), false);
+  
+  assert.equal(isWorkflowIncluded({ include: { tags: ['production'] } }, orders), true);
+  assert.equal(isWorkflowIncluded({ include: { tags: ['production'] } }, scratch), false);
+});
+
+test('exclude rules take precedence over include rules', () => {
+  const filters = { include: { tags: ['production'] }, exclude: { namePatterns: ['*sync'] } };
+  
+  assert.equal(isWorkflowIncluded(filters, orders), false);
+  assert.equal(isWorkflowIncluded({ exclude: { workflowIds: ['wf-1'] } }, scratch), true);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RunData, readNodeRuns } from '../src/run-data';
+
+const runData: RunData = {
+  'HTTP Request': [
+    { startTime: 2000, executionTime: 300, executionStatus: 'error', error: { message: 'Bad gateway', name: 'NodeApiError' } },
+    { startTime: 2500, executionTime: 200, executionStatus: 'success', data: { main: [[{ json: { id: 1 } }, { json: { id: 2 } }]] } },
+  ],
+  'Start': [
+    { startTime: 1000, executionTime: 5, executionStatus: 'success', data: { main: [[{ json: {} }]] } },
+  ],
+  'Never Ran': [
+    { executionTime: 0 },
+  ],
+};
+
+test('reads every run oldest first with its outcome', () => {
+  const runs = readNodeRuns(runData);
+  
+  assert.deepEqual(runs.map(run => [run.nodeName, run.runIndex, run.startTime, run.durationMs]), [
+    ['Start', 0, 1000, 5],
+    ['HTTP Request', 0, 2000, 300],
+    ['HTTP Request', 1, 2500, 200],
+  ]);
+  assert.deepEqual(runs[1].error, { message: 'Bad gateway', type: 'NodeApiError' });
+  assert.equal(runs[1].outputItemsCount, undefined);
+  assert.equal(runs[2].outputItemsCount, 2);
+  assert.deepEqual(runs[2].outputItems, [{ id: 1 }, { id: 2 }]);
+});
+
+test('skips the runs already reported per node', () => {
+  const runs = readNodeRuns(runData, nodeName => nodeName === 'HTTP Request' ? 1 : 0);
+  
+  assert.deepEqual(runs.map(run => [run.nodeName, run.runIndex]), [['Start', 0], ['HTTP Request', 1]]);
+});
+
+test('treats crashed and canceled runs as failed', () => {
+  const runs = readNodeRuns({
+    'Code': [{ startTime: 1, executionTime: 1, executionStatus: 'crashed' }],
+    'Wait': [{ startTime: 2, executionTime: 1, executionStatus: 'canceled', error: { description: 'Stopped by user' } }],
+  });
+  
+  assert.deepEqual(runs.map(run => run.error?.message), ['Node execution crashed', 'Stopped by user']);
+});
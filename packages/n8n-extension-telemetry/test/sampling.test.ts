@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { decideTailSample, getHeadSampleRate, isHeadSampled } from '../src/sampling';
+
+const IDS = Array.from({ length: 2000 }, (_, i) => `exec-${i}`);
+
+const completed = { status: 'completed' as const, durationMs: 100 };
+
+// ============ Head Sampling ============
+
+test('head rates fall back from the workflow to the default and are clamped', () => {
+  const config = { rate: 0.5, workflowRates: { 'wf-hot': 0.1, 'wf-bad': 7 } };
+  
+  assert.equal(getHeadSampleRate(config, 'wf-hot'), 0.1);
+  assert.equal(getHeadSampleRate(config, 'wf-other'), 0.5);
+  assert.equal(getHeadSampleRate(config, 'wf-bad'), 1);
+  assert.equal(getHeadSampleRate({}, 'wf-other'), 1);
+});
+
+test('head decisions are the same on every call and keep about the rate', () => {
+  const kept = IDS.filter(id => isHeadSampled(id, 0.25));
+  
+  assert.deepEqual(IDS.filter(id => isHeadSampled(id, 0.25)), kept);
+  assert.ok(Math.abs(kept.length / IDS.length - 0.25) < 0.05);
+  assert.equal(IDS.every(id => isHeadSampled(id, 1)), true);
+  assert.equal(IDS.some(id => isHeadSampled(id, 0)), false);
+});
+
+// ============ Tail Sampling ============
+
+test('keep rules keep failures, low scores and slow runs at rate 1', () => {
+  const config = { rate: 0, keepScoreBelow: 0.5, keepDurationAboveMs: 1000 };
+  
+  assert.deepEqual(decideTailSample(config, 'exec-1', { status: 'failed', durationMs: 100 }), { keep: true, rate: 1 });
+  assert.deepEqual(decideTailSample(config, 'exec-1', { status: 'abandoned', durationMs: 100 }), { keep: true, rate: 1 });
+  assert.deepEqual(decideTailSample(config, 'exec-1', { ...completed, score: 0.2 }), { keep: true, rate: 1 });
+  assert.deepEqual(decideTailSample(config, 'exec-1', { ...completed, durationMs: 5000 }), { keep: true, rate: 1 });
+  assert.deepEqual(decideTailSample(config, 'exec-1', { ...completed, score: 0.9 }), { keep: false, rate: 0 });
+});
+
+test('failures are dropped like any execution when keepFailed is off', () => {
+  const result = decideTailSample({ rate: 0, keepFailed: false }, 'exec-1', { status: 'failed', durationMs: 100 });
+  
+  assert.deepEqual(result, { keep: false, rate: 0 });
+});
+
+test('tail decisions are the same on every call', () => {
+  const decide = (id: string) => decideTailSample({ rate: 0.3 }, id, completed).keep;
+  const kept = IDS.filter(decide);
+  
+  assert.deepEqual(IDS.filter(decide), kept);
+  assert.ok(Math.abs(kept.length / IDS.length - 0.3) < 0.05);
+});
+
+test('tail decisions are independent of head decisions', () => {
+  const headKept = IDS.filter(id => isHeadSampled(id, 0.5));
+  const tailKept = headKept.filter(id => decideTailSample({ rate: 0.5 }, id, completed).keep);
+  
+  // Unsalted, every execution kept at head would also be kept at tail
+  assert.ok(Math.abs(tailKept.length / headKept.length - 0.5) < 0.07);
+});
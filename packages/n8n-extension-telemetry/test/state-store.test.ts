@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileExecutionStateStore } from '../src/state-store';
+import { ExecutionState } from '../src/tracker';
+
+const KEY = { id: 'k1', key: Buffer.alloc(32, 7).toString('base64') };
+
+function stateOf(executionId: string): ExecutionState {
+  const now = Date.now();
+  return {
+    executionId,
+    workflowId: 'wf-1',
+    workflowName: 'Orders',
+    startTime: now,
+    activeMs: 0,
+    resumedAt: now,
+    lastSeenAt: now,
+    trace: { trace_id: '0'.repeat(31) + '1', span_id: '0'.repeat(15) + '1' },
+    nodeTimings: new Map(),
+    nodeRunCounts: new Map([['HTTP Request', 2]]),
+    completedNodes: [],
+    failedNodes: [],
+    metadata: { requested_by: 'jane@example.com' },
+  };
+}
+
+async function withDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'state-store-'));
+  try {
+    await fn(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('writes redacted, encrypted state and reads it back', async () => {
+  await withDir(async dir => {
+    const store = new FileExecutionStateStore(dir, {
+      encryption: { keys: [KEY] },
+      redact: state => ({ ...state, metadata: { requested_by: '[REDACTED]' } }),
+    });
+    
+    await store.set(stateOf('exec-1'));
+    
+    const raw = fs.readFileSync(path.join(dir, 'exec-1.json'), 'utf8');
+    assert.ok(raw.startsWith('enc:v1:'));
+    assert.ok(!raw.includes('jane@example.com'));
+    
+    const state = await store.get('exec-1');
+    assert.deepEqual(state?.metadata, { requested_by: '[REDACTED]' });
+    assert.equal(state?.nodeRunCounts.get('HTTP Request'), 2);
+  });
+});
+
+test('lists around files it cannot read', async () => {
+  await withDir(async dir => {
+    const store = new FileExecutionStateStore(dir);
+    await store.set(stateOf('exec-1'));
+    fs.writeFileSync(path.join(dir, 'exec-2.json'), '{"executionId": "exec-2", ');
+    
+    const states = await store.list();
+    assert.deepEqual(states.map(state => state.executionId), ['exec-1']);
+  });
+});
+
+test('takes an execution only once', async () => {
+  await withDir(async dir => {
+    const first = new FileExecutionStateStore(dir);
+    const second = new FileExecutionStateStore(dir);
+    await first.set(stateOf('exec-1'));
+    
+    const taken = await Promise.all([first.take('exec-1', () => true), second.take('exec-1', () => true)]);
+    assert.equal(taken.filter(Boolean).length, 1);
+    assert.equal(await first.get('exec-1'), undefined);
+  });
+});
@@ -6,6 +6,7 @@ import {
   IDataObject,
 } from 'n8n-workflow';
 import { v4 as uuidv4 } from 'uuid';
+import { parseTraceparent, parseRedactionEntries } from '@n8n-telemetry/core';
 
 export class TelemetryConfig implements INodeType {
   description: INodeTypeDescription = {
@@ -56,6 +57,13 @@ export class TelemetryConfig implements INodeType {
         },
         description: 'The field name in input data containing the session ID',
       },
+      {
+        displayName: 'Traceparent Field',
+        name: 'traceparentField',
+        type: 'string',
+        default: 'headers.traceparent',
+        description: 'Dot-separated path to a W3C traceparent header in the input data (e.g. from a Webhook node). When present, telemetry joins the caller\'s trace.',
+      },
       
       // ============ Metadata ============
       {
@@ -173,8 +181,8 @@ export class TelemetryConfig implements INodeType {
             redactPayloads: [true],
           },
         },
-        placeholder: 'ssn, credit_card, custom_secret',
-        description: 'Comma-separated list of additional field names to redact',
+        placeholder: 'ssn, $..email, !payload.author, llm.responded:payload.prompt',
+        description: 'Comma-separated list of additional field names to redact, or path selectors: `$..email` or `payload.body` to always redact, `!payload.author` to never redact, optionally scoped to an event type as `event.type:path`',
       },
       {
         displayName: 'Capture Payloads',
@@ -265,6 +273,16 @@ export class TelemetryConfig implements INodeType {
         sessionId = uuidv4();
       }
 
+      // Get upstream trace context
+      const traceparentField = this.getNodeParameter('traceparentField', i, '') as string;
+      const traceparent = traceparentField
+        ? traceparentField.split('.').reduce<unknown>(
+          (value, key) => (value && typeof value === 'object' ? (value as IDataObject)[key] : undefined),
+          items[i].json
+        )
+        : undefined;
+      const upstreamTrace = parseTraceparent(typeof traceparent === 'string' ? traceparent : undefined);
+
       // Get metadata
       const tags = (this.getNodeParameter('tags', i, '') as string)
         .split(',')
@@ -293,10 +311,7 @@ export class TelemetryConfig implements INodeType {
       // Get redaction config
       const redactPayloads = this.getNodeParameter('redactPayloads', i) as boolean;
       const redactFieldsRaw = this.getNodeParameter('redactFields', i, '') as string;
-      const redactFields = redactFieldsRaw
-        .split(',')
-        .map(f => f.trim())
-        .filter(f => f);
+      const { fields: redactFields, policy: redactPolicy } = parseRedactionEntries(redactFieldsRaw.split(','));
       const capturePayloads = this.getNodeParameter('capturePayloads', i) as boolean;
 
       // Get evaluation config
@@ -315,6 +330,9 @@ export class TelemetryConfig implements INodeType {
         execution_id: executionId,
         workflow_id: workflowId,
         workflow_name: workflowName,
+        trace: upstreamTrace
+          ? { trace_id: upstreamTrace.trace_id, parent_span_id: upstreamTrace.parent_span_id }
+          : undefined,
         
         // Metadata
         tags,
@@ -333,6 +351,7 @@ export class TelemetryConfig implements INodeType {
         redaction: {
           enabled: redactPayloads,
           fields: redactFields,
+          policy: redactPolicy,
           capture_payloads: capturePayloads,
         },
         
@@ -4,6 +4,7 @@ import {
   INodeTypeDescription,
   INodeExecutionData,
   IDataObject,
+  NodeOperationError,
 } from 'n8n-workflow';
 import { v4 as uuidv4 } from 'uuid';
 import {
@@ -16,8 +17,42 @@ import {
   createLLMRespondedEvent,
   ExecutionContext,
   NodeContext,
+  RedactionPolicy,
+  DEFAULT_REDACT_FIELDS,
+  DEFAULT_REDACT_POLICY,
+  EncryptionConfig,
+  LineCipher,
+  parseEncryptionKeys,
 } from '@n8n-telemetry/core';
 
+let loadedEncryption: { config?: EncryptionConfig; error?: Error } | undefined;
+
+/**
+ * Keys from TELEMETRY_ENCRYPTION_KEYS, the same as the extension's. Read on
+ * first use and cached, error included: throwing when the module loads would
+ * stop n8n from loading every node in the package.
+ */
+function loadEncryptionConfig(): EncryptionConfig | undefined {
+  if (!loadedEncryption) {
+    loadedEncryption = {};
+    const entries = process.env.TELEMETRY_ENCRYPTION_KEYS?.split(',').filter(entry => entry.trim());
+    
+    if (entries?.length) {
+      try {
+        const config = { keys: parseEncryptionKeys(entries) };
+        // Checks key ids and lengths
+        new LineCipher(config);
+        loadedEncryption.config = config;
+      } catch (error) {
+        loadedEncryption.error = new Error(`Invalid TELEMETRY_ENCRYPTION_KEYS: ${(error as Error).message}`);
+      }
+    }
+  }
+  
+  if (loadedEncryption.error) throw loadedEncryption.error;
+  return loadedEncryption.config;
+}
+
 export class TelemetryEmit implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Telemetry Emit',
@@ -261,6 +296,13 @@ export class TelemetryEmit implements INodeType {
     const workflowName = this.getWorkflow().name || 'Unknown Workflow';
     const executionId = this.getExecutionId() || uuidv4();
 
+    let encryption: EncryptionConfig | undefined;
+    try {
+      encryption = loadEncryptionConfig();
+    } catch (error) {
+      throw new NodeOperationError(this.getNode(), error as Error);
+    }
+
     for (let i = 0; i < items.length; i++) {
       const eventType = this.getNodeParameter('eventType', i) as string;
       const useConfigFromInput = this.getNodeParameter('useConfigFromInput', i) as boolean;
@@ -268,12 +310,16 @@ export class TelemetryEmit implements INodeType {
       // Get telemetry config
       let filePath = './data/events.jsonl';
       let sessionId: string | null = null;
+      let trace: IDataObject | undefined;
       let metadata: Record<string, unknown> = {};
+      let redaction: IDataObject | undefined;
       
       if (useConfigFromInput && items[i].json._telemetry_config) {
         const config = items[i].json._telemetry_config as IDataObject;
         filePath = (config.transport as IDataObject)?.file_path as string || filePath;
         sessionId = config.session_id as string || null;
+        trace = config.trace as IDataObject | undefined;
+        redaction = config.redaction as IDataObject | undefined;
         metadata = {
           tags: config.tags,
           owner: config.owner,
@@ -288,6 +334,12 @@ export class TelemetryEmit implements INodeType {
       const transport: Transport = new FileTransport({
         filePath,
         createDir: true,
+        // Redaction settings from the Telemetry Config node, else the core defaults
+        redactPayloads: (redaction?.enabled as boolean | undefined) ?? true,
+        redactFields: [...DEFAULT_REDACT_FIELDS, ...((redaction?.fields as string[] | undefined) || [])],
+        redactPolicy: (redaction?.policy as RedactionPolicy | undefined) ?? DEFAULT_REDACT_POLICY,
+        // Same keys as the extension, so both write the file encrypted
+        encryption,
       });
 
       // Build execution context
@@ -296,6 +348,8 @@ export class TelemetryEmit implements INodeType {
         workflow_id: workflowId,
         workflow_name: workflowName,
         session_id: sessionId,
+        trace_id: trace?.trace_id as string | undefined,
+        parent_span_id: trace?.parent_span_id as string | undefined,
         metadata,
       };
 
@@ -10,12 +10,16 @@ import {
   EventTypes,
   EvalMetrics,
   EvalCompletedEvent,
+  EvaluationFinding,
   NodeCompletedEvent,
   NodeFailedEvent,
   WorkflowCompletedEvent,
   WorkflowFailedEvent,
+  WorkflowAbandonedEvent,
+  ChildExecutionSummary,
 } from '../events/types';
 import { createEvalCompletedEvent, ExecutionContext } from '../events/factory';
+import { EvaluationRule, RuleContext, RuleOutcome, DEFAULT_RULES } from './rules';
 
 // ============ Evaluator Configuration ============
 
@@ -40,6 +44,11 @@ export interface EvaluatorConfig {
    */
   workflowFailureMaxScore?: number;
   
+  /**
+   * Max score for an execution that was abandoned without an end event
+   */
+  workflowAbandonedMaxScore?: number;
+  
   /**
    * Penalty for slow workflow (per second over threshold)
    */
@@ -54,16 +63,42 @@ export interface EvaluatorConfig {
    * Bonus for successful completion with no issues
    */
   successBonus?: number;
+  
+  /**
+   * Evaluate sub-workflow executions found among the events and roll their
+   * results into the parent's score and metrics
+   */
+  rollUpChildExecutions?: boolean;
+  
+  /**
+   * Penalty per failed or abandoned sub-workflow execution (with rollUpChildExecutions)
+   */
+  childFailurePenalty?: number;
+  
+  /**
+   * Additional rules, applied after the built-in rules
+   */
+  rules?: EvaluationRule[];
+  
+  /**
+   * IDs of rules to skip (built-in or additional)
+   */
+  disabledRules?: string[];
 }
 
-const DEFAULT_CONFIG: Required<EvaluatorConfig> = {
+export type EvaluatorThresholds = Required<Omit<EvaluatorConfig, 'rules' | 'disabledRules'>>;
+
+const DEFAULT_CONFIG: EvaluatorThresholds = {
   maxWorkflowDurationMs: 60000, // 1 minute
   maxNodeDurationMs: 10000,     // 10 seconds
   failedNodePenalty: 15,
   workflowFailureMaxScore: 30,
+  workflowAbandonedMaxScore: 20,
   slowWorkflowPenaltyPerSecond: 2,
   slowNodePenalty: 5,
   successBonus: 10,
+  rollUpChildExecutions: false,
+  childFailurePenalty: 15,
 };
 
 // ============ Evaluation Result ============
@@ -72,24 +107,61 @@ export interface EvaluationResult {
   score: number;
   labels: string[];
   reasons: string[];
+  findings: EvaluationFinding[];
   metrics: EvalMetrics;
 }
 
 // ============ Evaluator Class ============
 
 export class WorkflowEvaluator {
-  private config: Required<EvaluatorConfig>;
+  private config: EvaluatorThresholds;
+  private rules: EvaluationRule[];
+  private disabledRules: Set<string>;
   
   constructor(config: EvaluatorConfig = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    const { rules = [], disabledRules = [], ...thresholds } = config;
+    
+    this.config = { ...DEFAULT_CONFIG, ...thresholds };
+    this.rules = [];
+    this.disabledRules = new Set(disabledRules);
+    
+    [...DEFAULT_RULES, ...rules].forEach(rule => this.registerRule(rule));
   }
   
   /**
-   * Evaluate a set of events from a single workflow execution
+   * Add a rule, replacing any rule with the same ID
    */
-  evaluate(events: TelemetryEvent[]): EvaluationResult {
+  registerRule(rule: EvaluationRule): void {
+    const existing = this.rules.findIndex(r => r.id === rule.id);
+    
+    if (existing >= 0) {
+      this.rules[existing] = rule;
+    } else {
+      this.rules.push(rule);
+    }
+  }
+  
+  /**
+   * Rules in the order they are applied
+   */
+  getRules(): EvaluationRule[] {
+    return this.rules.filter(rule => !this.disabledRules.has(rule.id));
+  }
+  
+  /**
+   * Evaluate a set of events from a single workflow execution. Events of its
+   * sub-workflow executions are evaluated separately and, with
+   * rollUpChildExecutions, rolled into the result.
+   */
+  evaluate(allEvents: TelemetryEvent[]): EvaluationResult {
+    const { events, children } = this.splitChildExecutions(allEvents);
+    const childExecutions = this.config.rollUpChildExecutions
+      ? Array.from(children).map(([executionId, childEvents]) => this.summarizeChild(executionId, childEvents))
+      : [];
+    
     const labels: string[] = [];
     const reasons: string[] = [];
+    const findings: EvaluationFinding[] = [];
     let score = 100;
     
     // Extract relevant events
@@ -98,21 +170,27 @@ export class WorkflowEvaluator {
     const nodeFailedEvents = events.filter(e => e.event_type === EventTypes.NODE_FAILED) as NodeFailedEvent[];
     const workflowCompletedEvent = events.find(e => e.event_type === EventTypes.WORKFLOW_COMPLETED) as WorkflowCompletedEvent | undefined;
     const workflowFailedEvent = events.find(e => e.event_type === EventTypes.WORKFLOW_FAILED) as WorkflowFailedEvent | undefined;
+    const workflowAbandonedEvent = events.find(e => e.event_type === EventTypes.WORKFLOW_ABANDONED) as WorkflowAbandonedEvent | undefined;
     
     // Calculate metrics
+    // Nodes in loops or retries start more than once: node_count counts every
+    // run, distinct_node_count each node once
     const nodeCount = nodeStartEvents.length;
+    const distinctNodeCount = new Set(nodeStartEvents.map(e => e.node_context?.node_name)).size;
     const failedNodeCount = nodeFailedEvents.length;
     
-    // Calculate total duration
+    // Calculate total duration, excluding time paused in Wait nodes
     let totalDurationMs = 0;
     if (workflowCompletedEvent) {
-      totalDurationMs = workflowCompletedEvent.duration_ms;
+      totalDurationMs = workflowCompletedEvent.payload.active_duration_ms ?? workflowCompletedEvent.duration_ms;
     } else if (workflowFailedEvent) {
-      totalDurationMs = workflowFailedEvent.duration_ms;
+      totalDurationMs = workflowFailedEvent.payload.active_duration_ms ?? workflowFailedEvent.duration_ms;
+    } else if (workflowAbandonedEvent) {
+      totalDurationMs = workflowAbandonedEvent.duration_ms;
     }
     
     // Find slowest node
-    let slowestNode: { name: string; duration_ms: number } | undefined;
+    let slowestNode: EvalMetrics['slowest_node'];
     const allNodeEndEvents = [...nodeCompletedEvents, ...nodeFailedEvents];
     
     for (const nodeEvent of allNodeEndEvents) {
@@ -121,6 +199,7 @@ export class WorkflowEvaluator {
           slowestNode = {
             name: nodeEvent.node_context.node_name,
             duration_ms: nodeEvent.duration_ms,
+            run_index: nodeEvent.node_context.run_index,
           };
         }
       }
@@ -136,60 +215,28 @@ export class WorkflowEvaluator {
     
     // ============ Apply Scoring Rules ============
     
-    // Rule 1: Workflow failure caps score at 30
-    if (workflowFailedEvent) {
-      score = Math.min(score, this.config.workflowFailureMaxScore);
-      labels.push('workflow_failed');
-      reasons.push(`Workflow failed: ${workflowFailedEvent.payload.error_message}`);
-      
-      if (workflowFailedEvent.payload.error_node) {
-        reasons.push(`Error occurred in node: ${workflowFailedEvent.payload.error_node}`);
-      }
-    }
-    
-    // Rule 2: Penalty per failed node
-    if (failedNodeCount > 0) {
-      const penalty = failedNodeCount * this.config.failedNodePenalty;
-      score -= penalty;
-      labels.push('node_failures');
-      reasons.push(`${failedNodeCount} node(s) failed (-${penalty} points)`);
-      
-      // List failed nodes
-      for (const failedNode of nodeFailedEvents) {
-        reasons.push(`  - ${failedNode.node_context.node_name}: ${failedNode.payload.error_message}`);
-      }
-    }
-    
-    // Rule 3: Slow workflow penalty
-    if (totalDurationMs > this.config.maxWorkflowDurationMs) {
-      const overageSeconds = (totalDurationMs - this.config.maxWorkflowDurationMs) / 1000;
-      const penalty = Math.floor(overageSeconds * this.config.slowWorkflowPenaltyPerSecond);
-      score -= penalty;
-      labels.push('slow_execution');
-      reasons.push(`Workflow exceeded time threshold: ${(totalDurationMs / 1000).toFixed(2)}s > ${this.config.maxWorkflowDurationMs / 1000}s (-${penalty} points)`);
-    }
-    
-    // Rule 4: Slow node penalty
-    const slowNodes = allNodeEndEvents.filter(
-      e => e.duration_ms !== undefined && e.duration_ms > this.config.maxNodeDurationMs
-    );
+    const ctx: RuleContext = {
+      config: this.config,
+      nodeStarted: nodeStartEvents,
+      nodeCompleted: nodeCompletedEvents,
+      nodeFailed: nodeFailedEvents,
+      workflowCompleted: workflowCompletedEvent,
+      workflowFailed: workflowFailedEvent,
+      workflowAbandoned: workflowAbandonedEvent,
+      childExecutions,
+      totalDurationMs,
+      score,
+    };
     
-    if (slowNodes.length > 0) {
-      const penalty = slowNodes.length * this.config.slowNodePenalty;
-      score -= penalty;
-      labels.push('slow_nodes');
-      reasons.push(`${slowNodes.length} node(s) exceeded time threshold (-${penalty} points)`);
+    for (const rule of this.getRules()) {
+      const outcome = rule.evaluate(events, ctx);
+      if (!outcome) continue;
       
-      for (const slowNode of slowNodes) {
-        reasons.push(`  - ${slowNode.node_context.node_name}: ${(slowNode.duration_ms! / 1000).toFixed(2)}s`);
-      }
-    }
-    
-    // Rule 5: Success bonus
-    if (workflowCompletedEvent && failedNodeCount === 0 && slowNodes.length === 0) {
-      score += this.config.successBonus;
-      labels.push('clean_execution');
-      reasons.push(`Clean execution with no failures (+${this.config.successBonus} points)`);
+      score += outcome.points;
+      ctx.score = score;
+      labels.push(...(outcome.labels || []));
+      reasons.push(...(outcome.reasons || []));
+      findings.push(...this.toFindings(rule, outcome));
     }
     
     // Clamp score between 0 and 100
@@ -199,11 +246,16 @@ export class WorkflowEvaluator {
     const metrics: EvalMetrics = {
       total_duration_ms: totalDurationMs,
       node_count: nodeCount,
+      distinct_node_count: distinctNodeCount,
       failed_node_count: failedNodeCount,
       slowest_node: slowestNode,
       avg_node_duration_ms: Math.round(avgNodeDurationMs),
     };
     
+    if (childExecutions.length > 0) {
+      metrics.child_executions = childExecutions;
+    }
+    
     // Add LLM metrics if present
     const llmEvents = events.filter(
       e => e.event_type === EventTypes.LLM_REQUESTED || e.event_type === EventTypes.LLM_RESPONDED
@@ -232,7 +284,92 @@ export class WorkflowEvaluator {
       };
     }
     
-    return { score, labels, reasons, metrics };
+    return { score, labels, reasons, findings, metrics };
+  }
+  
+  /**
+   * Separate the events of the evaluated execution from those of its
+   * sub-workflow executions, grouped by direct child (each group includes
+   * that child's own descendants). Events with no parent link to the
+   * evaluated execution stay with it.
+   */
+  private splitChildExecutions(events: TelemetryEvent[]): {
+    events: TelemetryEvent[];
+    children: Map<string, TelemetryEvent[]>;
+  } {
+    const parentOf = new Map<string, string>();
+    for (const e of events) {
+      if (e.parent_execution_id) parentOf.set(e.execution_id, e.parent_execution_id);
+    }
+    
+    const ids = new Set(events.map(e => e.execution_id));
+    const root = events.find(e => !parentOf.has(e.execution_id) || !ids.has(parentOf.get(e.execution_id)!));
+    if (!root || parentOf.size === 0) return { events, children: new Map() };
+    
+    // Walk up to the child directly under the evaluated execution
+    const directChild = (executionId: string): string | undefined => {
+      const seen = new Set<string>();
+      let current = executionId;
+      while (parentOf.has(current) && !seen.has(current)) {
+        seen.add(current);
+        const parent = parentOf.get(current)!;
+        if (parent === root.execution_id) return current;
+        current = parent;
+      }
+      return undefined;
+    };
+    
+    const own: TelemetryEvent[] = [];
+    const children = new Map<string, TelemetryEvent[]>();
+    
+    for (const e of events) {
+      const child = e.execution_id === root.execution_id ? undefined : directChild(e.execution_id);
+      if (!child) {
+        own.push(e);
+        continue;
+      }
+      
+      const group = children.get(child) || [];
+      group.push(e);
+      children.set(child, group);
+    }
+    
+    return { events: own, children };
+  }
+  
+  private summarizeChild(executionId: string, events: TelemetryEvent[]): ChildExecutionSummary {
+    const result = this.evaluate(events);
+    const first = events.find(e => e.execution_id === executionId)!;
+    const end = events.find(e =>
+      e.execution_id === executionId && (
+        e.event_type === EventTypes.WORKFLOW_COMPLETED ||
+        e.event_type === EventTypes.WORKFLOW_FAILED ||
+        e.event_type === EventTypes.WORKFLOW_ABANDONED
+      )
+    );
+    
+    return {
+      execution_id: executionId,
+      workflow_id: first.workflow_id,
+      workflow_name: first.workflow_name,
+      parent_node_name: first.parent_node_name,
+      status: end?.status ?? 'started',
+      score: result.score,
+      duration_ms: end?.duration_ms,
+    };
+  }
+  
+  private toFindings(rule: EvaluationRule, outcome: RuleOutcome): EvaluationFinding[] {
+    if (outcome.findings && outcome.findings.length > 0) {
+      return outcome.findings.map(finding => ({ rule_id: rule.id, ...finding }));
+    }
+    
+    return [{
+      rule_id: rule.id,
+      severity: outcome.points < 0 ? 'warning' : 'info',
+      points: outcome.points,
+      message: outcome.reasons?.[0] ?? rule.id,
+    }];
   }
   
   /**
@@ -249,7 +386,8 @@ export class WorkflowEvaluator {
       result.score,
       result.labels,
       result.reasons,
-      result.metrics
+      result.metrics,
+      result.findings
     );
   }
 }
@@ -0,0 +1,312 @@
+/**
+ * Evaluation Rules
+ *
+ * Scoring rules applied by the WorkflowEvaluator. Each rule inspects the
+ * events of one execution and contributes points, labels and reasons.
+ */
+
+import {
+  TelemetryEvent,
+  NodeCompletedEvent,
+  NodeFailedEvent,
+  WorkflowCompletedEvent,
+  WorkflowFailedEvent,
+  WorkflowAbandonedEvent,
+  EvaluationFinding,
+  ChildExecutionSummary,
+} from '../events/types';
+import type { EvaluatorThresholds } from './evaluator';
+
+// ============ Rule Interface ============
+
+export interface RuleOutcome {
+  /**
+   * Points added to the score (negative for penalties)
+   */
+  points: number;
+  labels?: string[];
+  reasons?: string[];
+  
+  /**
+   * Structured details of the outcome; the evaluator fills in the rule ID.
+   * When omitted, a single finding is derived from the points and first reason.
+   */
+  findings?: RuleFinding[];
+}
+
+export type RuleFinding = Omit<EvaluationFinding, 'rule_id'>;
+
+export interface RuleContext {
+  /**
+   * Evaluator thresholds and penalties
+   */
+  config: EvaluatorThresholds;
+  
+  /**
+   * Events of the execution, grouped by type
+   */
+  nodeStarted: TelemetryEvent[];
+  nodeCompleted: NodeCompletedEvent[];
+  nodeFailed: NodeFailedEvent[];
+  workflowCompleted?: WorkflowCompletedEvent;
+  workflowFailed?: WorkflowFailedEvent;
+  workflowAbandoned?: WorkflowAbandonedEvent;
+  
+  /**
+   * Results of sub-workflow executions (empty unless rollUpChildExecutions is set)
+   */
+  childExecutions: ChildExecutionSummary[];
+  
+  totalDurationMs: number;
+  
+  /**
+   * Score accumulated by the rules applied so far
+   */
+  score: number;
+}
+
+export interface EvaluationRule {
+  /**
+   * Unique rule ID, used to disable or replace the rule
+   */
+  readonly id: string;
+  
+  /**
+   * Return undefined when the rule does not apply
+   */
+  evaluate(events: TelemetryEvent[], ctx: RuleContext): RuleOutcome | undefined;
+}
+
+// ============ Built-in Rules ============
+
+/**
+ * Node name, with the run number for repeated runs
+ */
+function describeNode(e: NodeCompletedEvent | NodeFailedEvent): string {
+  const runIndex = e.node_context.run_index;
+  return runIndex ? `${e.node_context.node_name} (run ${runIndex + 1})` : e.node_context.node_name;
+}
+
+function slowNodes(ctx: RuleContext): Array<NodeCompletedEvent | NodeFailedEvent> {
+  return [...ctx.nodeCompleted, ...ctx.nodeFailed].filter(
+    e => e.duration_ms !== undefined && e.duration_ms > ctx.config.maxNodeDurationMs
+  );
+}
+
+function failedChildren(ctx: RuleContext): ChildExecutionSummary[] {
+  return ctx.childExecutions.filter(c => c.status === 'failed' || c.status === 'abandoned');
+}
+
+/**
+ * Workflow failure caps the score
+ */
+export const workflowFailureRule: EvaluationRule = {
+  id: 'workflow_failure',
+  evaluate(_events, ctx) {
+    const failed = ctx.workflowFailed;
+    if (!failed) return undefined;
+    
+    const reasons = [`Workflow failed: ${failed.payload.error_message}`];
+    if (failed.payload.error_node) {
+      reasons.push(`Error occurred in node: ${failed.payload.error_node}`);
+    }
+    
+    const points = Math.min(0, ctx.config.workflowFailureMaxScore - ctx.score);
+    
+    return {
+      points,
+      labels: ['workflow_failed'],
+      reasons,
+      findings: [{
+        severity: 'error',
+        points,
+        node_name: failed.payload.error_node,
+        threshold: ctx.config.workflowFailureMaxScore,
+        message: reasons[0],
+      }],
+    };
+  },
+};
+
+/**
+ * An execution that never reported an end caps the score
+ */
+export const workflowAbandonedRule: EvaluationRule = {
+  id: 'workflow_abandoned',
+  evaluate(_events, ctx) {
+    const abandoned = ctx.workflowAbandoned;
+    if (!abandoned) return undefined;
+    
+    const { last_node, idle_ms, in_flight_nodes } = abandoned.payload;
+    const message = `Workflow abandoned after ${(idle_ms / 1000).toFixed(0)}s without activity`;
+    const reasons = [message];
+    if (last_node) {
+      reasons.push(`Last seen node: ${last_node}`);
+    }
+    for (const node of in_flight_nodes) {
+      reasons.push(`  - ${node.node_name} still running after ${(node.elapsed_ms / 1000).toFixed(2)}s`);
+    }
+    
+    const points = Math.min(0, ctx.config.workflowAbandonedMaxScore - ctx.score);
+    
+    return {
+      points,
+      labels: ['abandoned'],
+      reasons,
+      findings: [{
+        severity: 'error',
+        points,
+        node_name: last_node,
+        measured: idle_ms,
+        message,
+      }],
+    };
+  },
+};
+
+/**
+ * Penalty per failed node
+ */
+export const failedNodesRule: EvaluationRule = {
+  id: 'failed_nodes',
+  evaluate(_events, ctx) {
+    const failedNodeCount = ctx.nodeFailed.length;
+    if (failedNodeCount === 0) return undefined;
+    
+    const penalty = failedNodeCount * ctx.config.failedNodePenalty;
+    
+    return {
+      points: -penalty,
+      labels: ['node_failures'],
+      reasons: [
+        `${failedNodeCount} node(s) failed (-${penalty} points)`,
+        ...ctx.nodeFailed.map(e => `  - ${describeNode(e)}: ${e.payload.error_message}`),
+      ],
+      findings: ctx.nodeFailed.map(e => ({
+        severity: 'error',
+        points: -ctx.config.failedNodePenalty,
+        node_name: e.node_context.node_name,
+        run_index: e.node_context.run_index,
+        message: e.payload.error_message,
+      })),
+    };
+  },
+};
+
+/**
+ * Penalty per second over the workflow duration threshold
+ */
+export const slowWorkflowRule: EvaluationRule = {
+  id: 'slow_workflow',
+  evaluate(_events, ctx) {
+    const { maxWorkflowDurationMs, slowWorkflowPenaltyPerSecond } = ctx.config;
+    if (ctx.totalDurationMs <= maxWorkflowDurationMs) return undefined;
+    
+    const overageSeconds = (ctx.totalDurationMs - maxWorkflowDurationMs) / 1000;
+    const penalty = Math.floor(overageSeconds * slowWorkflowPenaltyPerSecond);
+    const message = `Workflow exceeded time threshold: ${(ctx.totalDurationMs / 1000).toFixed(2)}s > ${maxWorkflowDurationMs / 1000}s`;
+    
+    return {
+      points: -penalty,
+      labels: ['slow_execution'],
+      reasons: [`${message} (-${penalty} points)`],
+      findings: [{
+        severity: 'warning',
+        points: -penalty,
+        measured: ctx.totalDurationMs,
+        threshold: maxWorkflowDurationMs,
+        message,
+      }],
+    };
+  },
+};
+
+/**
+ * Penalty per node over the node duration threshold
+ */
+export const slowNodesRule: EvaluationRule = {
+  id: 'slow_nodes',
+  evaluate(_events, ctx) {
+    const slow = slowNodes(ctx);
+    if (slow.length === 0) return undefined;
+    
+    const penalty = slow.length * ctx.config.slowNodePenalty;
+    
+    return {
+      points: -penalty,
+      labels: ['slow_nodes'],
+      reasons: [
+        `${slow.length} node(s) exceeded time threshold (-${penalty} points)`,
+        ...slow.map(e => `  - ${describeNode(e)}: ${(e.duration_ms! / 1000).toFixed(2)}s`),
+      ],
+      findings: slow.map(e => ({
+        severity: 'warning',
+        points: -ctx.config.slowNodePenalty,
+        node_name: e.node_context.node_name,
+        run_index: e.node_context.run_index,
+        measured: e.duration_ms,
+        threshold: ctx.config.maxNodeDurationMs,
+        message: `Node exceeded time threshold: ${(e.duration_ms! / 1000).toFixed(2)}s > ${ctx.config.maxNodeDurationMs / 1000}s`,
+      })),
+    };
+  },
+};
+
+/**
+ * Penalty per sub-workflow execution that failed or was abandoned
+ */
+export const childExecutionsRule: EvaluationRule = {
+  id: 'child_executions',
+  evaluate(_events, ctx) {
+    const failed = failedChildren(ctx);
+    if (failed.length === 0) return undefined;
+    
+    const penalty = failed.length * ctx.config.childFailurePenalty;
+    const describe = (c: ChildExecutionSummary) =>
+      `${c.workflow_name || c.workflow_id} ${c.status} (score ${c.score})`;
+    
+    return {
+      points: -penalty,
+      labels: ['child_failures'],
+      reasons: [
+        `${failed.length} sub-workflow execution(s) failed (-${penalty} points)`,
+        ...failed.map(c => `  - ${describe(c)}`),
+      ],
+      findings: failed.map(c => ({
+        severity: 'error',
+        points: -ctx.config.childFailurePenalty,
+        node_name: c.parent_node_name,
+        measured: c.score,
+        message: `Sub-workflow ${describe(c)}`,
+      })),
+    };
+  },
+};
+
+/**
+ * Bonus for a completed workflow with no failed or slow nodes (or failed sub-workflows)
+ */
+export const successBonusRule: EvaluationRule = {
+  id: 'success_bonus',
+  evaluate(_events, ctx) {
+    if (!ctx.workflowCompleted || ctx.nodeFailed.length > 0 || slowNodes(ctx).length > 0 || failedChildren(ctx).length > 0) {
+      return undefined;
+    }
+    
+    return {
+      points: ctx.config.successBonus,
+      labels: ['clean_execution'],
+      reasons: [`Clean execution with no failures (+${ctx.config.successBonus} points)`],
+    };
+  },
+};
+
+export const DEFAULT_RULES: EvaluationRule[] = [
+  workflowFailureRule,
+  workflowAbandonedRule,
+  failedNodesRule,
+  slowWorkflowRule,
+  slowNodesRule,
+  childExecutionsRule,
+  successBonusRule,
+];
@@ -13,15 +13,22 @@ import {
   WorkflowStartedEvent,
   WorkflowCompletedEvent,
   WorkflowFailedEvent,
+  WorkflowAbandonedEvent,
+  WorkflowPausedEvent,
+  WorkflowResumedEvent,
+  InFlightNode,
   NodeStartedEvent,
   NodeCompletedEvent,
   NodeFailedEvent,
+  NodePayloadSamples,
   EvalCompletedEvent,
   EvalMetrics,
+  EvaluationFinding,
   CustomEvent,
   LLMRequestedEvent,
   LLMRespondedEvent,
 } from './types';
+import { deriveTraceId, deriveSpanId, deriveWorkflowSpanId, generateSpanId } from './trace-context';
 
 // ============ Context Interface ============
 
@@ -31,6 +38,30 @@ export interface ExecutionContext {
   workflow_name?: string;
   run_id?: string;
   session_id?: string | null;
+  /**
+   * Trace the events belong to (derived from execution_id when omitted)
+   */
+  trace_id?: string;
+  /**
+   * Span the events belong to (the execution's root span when omitted)
+   */
+  span_id?: string;
+  parent_span_id?: string;
+  /**
+   * Calling execution, for sub-workflow executions
+   */
+  parent_execution_id?: string;
+  parent_workflow_id?: string;
+  parent_node_name?: string;
+  /**
+   * n8n process emitting the events, for queue mode
+   */
+  process_role?: string;
+  worker_id?: string;
+  /**
+   * Sampling probability of the execution, when it was sampled
+   */
+  sample_rate?: number;
   metadata?: Record<string, unknown>;
 }
 
@@ -50,11 +81,38 @@ function createBaseEvent(
     workflow_name: context.workflow_name,
     execution_id: context.execution_id,
     session_id: context.session_id,
+    trace_id: context.trace_id || deriveTraceId(context.execution_id),
+    span_id: context.span_id || deriveWorkflowSpanId(context.execution_id),
+    parent_span_id: context.parent_span_id,
+    parent_execution_id: context.parent_execution_id,
+    parent_workflow_id: context.parent_workflow_id,
+    parent_node_name: context.parent_node_name,
+    process_role: context.process_role,
+    worker_id: context.worker_id,
+    sample_rate: context.sample_rate,
     status,
     metadata: context.metadata,
   };
 }
 
+/**
+ * Node events get their own span under the workflow span unless the caller
+ * already supplies node-level span identity in the context. With a run index
+ * the span ID is derived, so a run's start and end events share it; without
+ * one every event gets a fresh span ID, so repeated runs never collide.
+ */
+function withNodeSpan(context: ExecutionContext, nodeContext: NodeContext): ExecutionContext {
+  if (context.span_id) return context;
+
+  return {
+    ...context,
+    span_id: nodeContext.run_index !== undefined
+      ? deriveSpanId(`node:${context.execution_id}:${nodeContext.node_name}:${nodeContext.run_index}`)
+      : generateSpanId(),
+    parent_span_id: deriveWorkflowSpanId(context.execution_id),
+  };
+}
+
 // ============ Workflow Event Factories ============
 
 export function createWorkflowStartedEvent(
@@ -73,11 +131,16 @@ export function createWorkflowStartedEvent(
   };
 }
 
+/**
+ * `durationMs` is the wall-clock duration; pass `activeDurationMs` when the
+ * execution spent time paused
+ */
 export function createWorkflowCompletedEvent(
   context: ExecutionContext,
   durationMs: number,
   nodeCount: number,
-  mode?: string
+  mode?: string,
+  activeDurationMs?: number
 ): WorkflowCompletedEvent {
   return {
     ...createBaseEvent(context, EventTypes.WORKFLOW_COMPLETED, 'completed'),
@@ -87,6 +150,8 @@ export function createWorkflowCompletedEvent(
     payload: {
       node_count: nodeCount,
       mode,
+      active_duration_ms: activeDurationMs ?? durationMs,
+      wall_duration_ms: durationMs,
     },
   };
 }
@@ -99,7 +164,8 @@ export function createWorkflowFailedEvent(
     node?: string;
     type?: string;
     stack?: string;
-  }
+  },
+  activeDurationMs?: number
 ): WorkflowFailedEvent {
   return {
     ...createBaseEvent(context, EventTypes.WORKFLOW_FAILED, 'failed'),
@@ -111,6 +177,67 @@ export function createWorkflowFailedEvent(
       error_node: error.node,
       error_type: error.type,
       stack_trace: error.stack,
+      active_duration_ms: activeDurationMs ?? durationMs,
+      wall_duration_ms: durationMs,
+    },
+  };
+}
+
+export function createWorkflowAbandonedEvent(
+  context: ExecutionContext,
+  durationMs: number,
+  details: {
+    lastNode?: string;
+    lastSeenAt: number;
+    inFlightNodes: InFlightNode[];
+  }
+): WorkflowAbandonedEvent {
+  const base = createBaseEvent(context, EventTypes.WORKFLOW_ABANDONED, 'abandoned');
+  
+  return {
+    ...base,
+    event_type: EventTypes.WORKFLOW_ABANDONED,
+    status: 'abandoned',
+    duration_ms: durationMs,
+    payload: {
+      last_node: details.lastNode,
+      last_seen_at: new Date(details.lastSeenAt).toISOString(),
+      idle_ms: Date.parse(base.timestamp) - details.lastSeenAt,
+      in_flight_nodes: details.inFlightNodes,
+    },
+  };
+}
+
+export function createWorkflowPausedEvent(
+  context: ExecutionContext,
+  activeDurationMs: number,
+  details: { waitingNode?: string; waitTill?: Date } = {}
+): WorkflowPausedEvent {
+  return {
+    ...createBaseEvent(context, EventTypes.WORKFLOW_PAUSED, 'paused'),
+    event_type: EventTypes.WORKFLOW_PAUSED,
+    status: 'paused',
+    payload: {
+      waiting_node: details.waitingNode,
+      wait_till: details.waitTill?.toISOString(),
+      active_duration_ms: activeDurationMs,
+    },
+  };
+}
+
+export function createWorkflowResumedEvent(
+  context: ExecutionContext,
+  pausedAt: number
+): WorkflowResumedEvent {
+  const base = createBaseEvent(context, EventTypes.WORKFLOW_RESUMED, 'started');
+
+  return {
+    ...base,
+    event_type: EventTypes.WORKFLOW_RESUMED,
+    status: 'started',
+    payload: {
+      paused_at: new Date(pausedAt).toISOString(),
+      paused_ms: Date.parse(base.timestamp) - pausedAt,
     },
   };
 }
@@ -123,7 +250,7 @@ export function createNodeStartedEvent(
   inputItemsCount?: number
 ): NodeStartedEvent {
   return {
-    ...createBaseEvent(context, EventTypes.NODE_STARTED, 'started'),
+    ...createBaseEvent(withNodeSpan(context, nodeContext), EventTypes.NODE_STARTED, 'started'),
     event_type: EventTypes.NODE_STARTED,
     status: 'started',
     node_context: nodeContext,
@@ -137,16 +264,18 @@ export function createNodeCompletedEvent(
   context: ExecutionContext,
   nodeContext: NodeContext,
   durationMs: number,
-  outputItemsCount?: number
+  outputItemsCount?: number,
+  samples?: NodePayloadSamples
 ): NodeCompletedEvent {
   return {
-    ...createBaseEvent(context, EventTypes.NODE_COMPLETED, 'completed'),
+    ...createBaseEvent(withNodeSpan(context, nodeContext), EventTypes.NODE_COMPLETED, 'completed'),
     event_type: EventTypes.NODE_COMPLETED,
     status: 'completed',
     node_context: nodeContext,
     duration_ms: durationMs,
     payload: {
       output_items_count: outputItemsCount,
+      ...samples,
     },
   };
 }
@@ -155,10 +284,11 @@ export function createNodeFailedEvent(
   context: ExecutionContext,
   nodeContext: NodeContext,
   durationMs: number,
-  error: { message: string; type?: string }
+  error: { message: string; type?: string },
+  samples?: NodePayloadSamples
 ): NodeFailedEvent {
   return {
-    ...createBaseEvent(context, EventTypes.NODE_FAILED, 'failed'),
+    ...createBaseEvent(withNodeSpan(context, nodeContext), EventTypes.NODE_FAILED, 'failed'),
     event_type: EventTypes.NODE_FAILED,
     status: 'failed',
     node_context: nodeContext,
@@ -166,6 +296,7 @@ export function createNodeFailedEvent(
     payload: {
       error_message: error.message,
       error_type: error.type,
+      ...samples,
     },
   };
 }
@@ -177,7 +308,8 @@ export function createEvalCompletedEvent(
   score: number,
   labels: string[],
   reasons: string[],
-  metrics: EvalMetrics
+  metrics: EvalMetrics,
+  findings?: EvaluationFinding[]
 ): EvalCompletedEvent {
   return {
     ...createBaseEvent(context, EventTypes.EVAL_COMPLETED, 'completed'),
@@ -187,6 +319,7 @@ export function createEvalCompletedEvent(
       score,
       labels,
       reasons,
+      findings,
       metrics,
     },
   };
@@ -0,0 +1,83 @@
+/**
+ * W3C Trace Context
+ *
+ * Helpers for generating span identity and parsing/formatting
+ * `traceparent` headers (https://www.w3.org/TR/trace-context/)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+// ============ Trace Context Interface ============
+
+export interface TraceContext {
+  trace_id: string;
+  span_id: string;
+  parent_span_id?: string;
+}
+
+export interface ParsedTraceparent {
+  trace_id: string;
+  parent_span_id: string;
+  trace_flags: string;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+// ============ Id Generation ============
+
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Derive a stable trace ID from an execution ID, so every producer
+ * of events for the same execution lands in the same trace
+ */
+export function deriveTraceId(executionId: string): string {
+  return createHash('sha256').update(`trace:${executionId}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Derive a stable span ID from an arbitrary seed
+ */
+export function deriveSpanId(seed: string): string {
+  return createHash('sha256').update(`span:${seed}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * The root (workflow) span ID of an execution
+ */
+export function deriveWorkflowSpanId(executionId: string): string {
+  return deriveSpanId(`workflow:${executionId}`);
+}
+
+// ============ traceparent Header ============
+
+export function parseTraceparent(header: string | undefined | null): ParsedTraceparent | undefined {
+  if (!header) return undefined;
+  
+  const match = TRACEPARENT_PATTERN.exec(header.trim().toLowerCase());
+  if (!match) return undefined;
+  
+  const [, version, traceId, parentId, flags, rest] = match;
+  
+  // Version ff is forbidden; version 00 must not carry extra fields
+  if (version === 'ff' || (version === '00' && rest)) return undefined;
+  if (traceId === INVALID_TRACE_ID || parentId === INVALID_SPAN_ID) return undefined;
+  
+  return {
+    trace_id: traceId,
+    parent_span_id: parentId,
+    trace_flags: flags,
+  };
+}
+
+export function formatTraceparent(traceId: string, spanId: string, traceFlags = '01'): string {
+  return `00-${traceId}-${spanId}-${traceFlags}`;
+}
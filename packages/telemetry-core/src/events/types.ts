@@ -11,6 +11,9 @@ export const EventTypes = {
   WORKFLOW_STARTED: 'workflow.started',
   WORKFLOW_COMPLETED: 'workflow.completed',
   WORKFLOW_FAILED: 'workflow.failed',
+  WORKFLOW_ABANDONED: 'workflow.abandoned',
+  WORKFLOW_PAUSED: 'workflow.paused',
+  WORKFLOW_RESUMED: 'workflow.resumed',
   
   // Node lifecycle
   NODE_STARTED: 'node.started',
@@ -34,7 +37,7 @@ export type EventType = typeof EventTypes[keyof typeof EventTypes];
 
 // ============ Status Types ============
 
-export type EventStatus = 'started' | 'completed' | 'failed';
+export type EventStatus = 'started' | 'completed' | 'failed' | 'abandoned' | 'paused';
 
 // ============ Node Context ============
 
@@ -43,6 +46,10 @@ export interface NodeContext {
   node_name: string;
   node_type: string;
   node_index?: number;
+  /**
+   * Zero-based run number of the node within the execution (loops, retries)
+   */
+  run_index?: number;
 }
 
 // ============ Base Event Interface ============
@@ -56,6 +63,20 @@ export interface TelemetryEventBase {
   workflow_name?: string;
   execution_id: string;
   session_id?: string | null;
+  trace_id?: string;
+  span_id?: string;
+  parent_span_id?: string;
+  // Set on sub-workflow executions (Execute Workflow node)
+  parent_execution_id?: string;
+  parent_workflow_id?: string;
+  parent_node_name?: string;
+  // Emitting n8n process, for queue mode ('main', 'webhook' or 'worker')
+  process_role?: string;
+  worker_id?: string;
+  // Probability the event was kept by sampling; weight counts by 1 / sample_rate
+  sample_rate?: number;
+  // Values the transport redacted from payload and metadata
+  redactions?: number;
   node_context?: NodeContext;
   duration_ms?: number;
   status: EventStatus;
@@ -82,6 +103,14 @@ export interface WorkflowCompletedEvent extends TelemetryEventBase {
   payload: {
     node_count: number;
     mode?: string;
+    /**
+     * Time spent running, excluding time paused in Wait nodes
+     */
+    active_duration_ms?: number;
+    /**
+     * Time from start to end, including pauses (same as duration_ms)
+     */
+    wall_duration_ms?: number;
   };
 }
 
@@ -94,6 +123,55 @@ export interface WorkflowFailedEvent extends TelemetryEventBase {
     error_node?: string;
     error_type?: string;
     stack_trace?: string;
+    active_duration_ms?: number;
+    wall_duration_ms?: number;
+  };
+}
+
+export interface InFlightNode {
+  node_name: string;
+  node_type?: string;
+  run_index?: number;
+  started_at: string;
+  elapsed_ms: number;
+}
+
+/**
+ * Emitted when an execution saw no activity for longer than the configured TTL
+ * and never reported an end (e.g. n8n crashed or the end hook never fired)
+ */
+export interface WorkflowAbandonedEvent extends TelemetryEventBase {
+  event_type: typeof EventTypes.WORKFLOW_ABANDONED;
+  status: 'abandoned';
+  duration_ms: number;
+  payload: {
+    last_node?: string;
+    last_seen_at: string;
+    idle_ms: number;
+    in_flight_nodes: InFlightNode[];
+  };
+}
+
+/**
+ * Emitted when an execution is put to sleep by a Wait node. It may resume
+ * later, possibly in another process.
+ */
+export interface WorkflowPausedEvent extends TelemetryEventBase {
+  event_type: typeof EventTypes.WORKFLOW_PAUSED;
+  status: 'paused';
+  payload: {
+    waiting_node?: string;
+    wait_till?: string;
+    active_duration_ms: number;
+  };
+}
+
+export interface WorkflowResumedEvent extends TelemetryEventBase {
+  event_type: typeof EventTypes.WORKFLOW_RESUMED;
+  status: 'started';
+  payload: {
+    paused_at: string;
+    paused_ms: number;
   };
 }
 
@@ -108,12 +186,25 @@ export interface NodeStartedEvent extends TelemetryEventBase {
   };
 }
 
+/**
+ * Truncated, redacted copies of a node's input and output items (a type
+ * rather than an interface, so it satisfies the `payload` record)
+ */
+export type NodePayloadSamples = {
+  input_sample?: unknown[];
+  output_sample?: unknown[];
+  /**
+   * Set when a sample was cut down to fit the capture limits
+   */
+  sample_truncated?: boolean;
+};
+
 export interface NodeCompletedEvent extends TelemetryEventBase {
   event_type: typeof EventTypes.NODE_COMPLETED;
   status: 'completed';
   node_context: NodeContext;
   duration_ms: number;
-  payload: {
+  payload: NodePayloadSamples & {
     output_items_count?: number;
   };
 }
@@ -123,7 +214,7 @@ export interface NodeFailedEvent extends TelemetryEventBase {
   status: 'failed';
   node_context: NodeContext;
   duration_ms: number;
-  payload: {
+  payload: NodePayloadSamples & {
     error_message: string;
     error_type?: string;
   };
@@ -133,11 +224,16 @@ export interface NodeFailedEvent extends TelemetryEventBase {
 
 export interface EvalMetrics {
   total_duration_ms: number;
+  /**
+   * Node runs started; a node in a loop or retried counts once per run
+   */
   node_count: number;
+  distinct_node_count?: number;
   failed_node_count: number;
   slowest_node?: {
     name: string;
     duration_ms: number;
+    run_index?: number;
   };
   avg_node_duration_ms?: number;
   llm_metrics?: {
@@ -145,6 +241,33 @@ export interface EvalMetrics {
     total_tokens?: number;
     total_latency_ms?: number;
   };
+  /**
+   * Sub-workflow executions rolled into this result
+   */
+  child_executions?: ChildExecutionSummary[];
+}
+
+export interface ChildExecutionSummary {
+  execution_id: string;
+  workflow_id: string;
+  workflow_name?: string;
+  parent_node_name?: string;
+  status: EventStatus;
+  score: number;
+  duration_ms?: number;
+}
+
+export type FindingSeverity = 'info' | 'warning' | 'error';
+
+export interface EvaluationFinding {
+  rule_id: string;
+  severity: FindingSeverity;
+  points: number;
+  node_name?: string;
+  run_index?: number;
+  measured?: number;
+  threshold?: number;
+  message: string;
 }
 
 export interface EvalCompletedEvent extends TelemetryEventBase {
@@ -154,6 +277,7 @@ export interface EvalCompletedEvent extends TelemetryEventBase {
     score: number;
     labels: string[];
     reasons: string[];
+    findings?: EvaluationFinding[];
     metrics: EvalMetrics;
   };
 }
@@ -200,6 +324,9 @@ export type TelemetryEvent =
   | WorkflowStartedEvent
   | WorkflowCompletedEvent
   | WorkflowFailedEvent
+  | WorkflowAbandonedEvent
+  | WorkflowPausedEvent
+  | WorkflowResumedEvent
   | NodeStartedEvent
   | NodeCompletedEvent
   | NodeFailedEvent
@@ -13,6 +13,9 @@ export * from './transport';
 // Evaluator
 export * from './evaluator';
 
+// Processors
+export * from './processors';
+
 // Re-export commonly used items at top level
 export {
   EventTypes,
@@ -20,12 +23,19 @@ export {
   WorkflowStartedEvent,
   WorkflowCompletedEvent,
   WorkflowFailedEvent,
+  WorkflowAbandonedEvent,
+  WorkflowPausedEvent,
+  WorkflowResumedEvent,
+  InFlightNode,
   NodeStartedEvent,
   NodeCompletedEvent,
   NodeFailedEvent,
+  NodePayloadSamples,
   EvalCompletedEvent,
   NodeContext,
   EvalMetrics,
+  EvaluationFinding,
+  ChildExecutionSummary,
 } from './events/types';
 
 export {
@@ -33,6 +43,9 @@ export {
   createWorkflowStartedEvent,
   createWorkflowCompletedEvent,
   createWorkflowFailedEvent,
+  createWorkflowAbandonedEvent,
+  createWorkflowPausedEvent,
+  createWorkflowResumedEvent,
   createNodeStartedEvent,
   createNodeCompletedEvent,
   createNodeFailedEvent,
@@ -40,10 +53,58 @@ export {
   createCustomEvent,
 } from './events/factory';
 
-export { Transport, TransportConfig } from './transport/base';
-export { FileTransport, FileTransportConfig } from './transport/file';
+export { Transport, TransportConfig, redactEvent } from './transport/base';
+export {
+  RedactionDetector,
+  RedactionOptions,
+  RedactionResult,
+  DEFAULT_DETECTORS,
+  DEFAULT_REDACT_FIELDS,
+  createRegexDetector,
+  maskKeepingLast,
+  redactSensitiveData,
+  redactString,
+  redactValue,
+} from './transport/redaction';
+export {
+  RedactionPolicy,
+  RedactionRule,
+  DEFAULT_REDACT_POLICY,
+  parseSelector,
+  parseRedactionEntries,
+} from './transport/redaction-policy';
+export {
+  PseudonymizationConfig,
+  PseudonymizationKey,
+  PSEUDONYM_PREFIX,
+  pseudonymize,
+  pseudonymTokens,
+  parsePseudonymizationKeys,
+} from './transport/pseudonymization';
+export { FileTransport, FileTransportConfig, FileRotationConfig } from './transport/file';
 export { HttpTransport, HttpTransportConfig } from './transport/http';
+export { OtlpTransport, OtlpTransportConfig } from './transport/otlp';
+export { Outbox, OutboxConfig, OutboxStats, DEAD_LETTER_FILE } from './transport/outbox';
 export { MultiTransport } from './transport/multi';
+export { acquireLockFile } from './transport/lock-file';
+export { TelemetryQuery, TelemetryQueryResult } from './transport/query';
+export { ErasureFilter, ErasureRecord, matchesErasureRecord } from './transport/erasure';
+export {
+  EncryptionConfig,
+  EncryptionKey,
+  LineCipher,
+  ENCRYPTED_LINE_PREFIX,
+  parseEncryptionKeys,
+} from './transport/encryption';
+
+export {
+  ProcessorPipeline,
+  EventProcessor,
+  NamedEventProcessor,
+  ProcessorStats,
+  enrichMetadata,
+  dropEvents,
+} from './processors';
 
 export {
   WorkflowEvaluator,
@@ -52,3 +113,11 @@ export {
   createEvaluator,
   evaluateExecution,
 } from './evaluator/evaluator';
+
+export {
+  EvaluationRule,
+  RuleContext,
+  RuleOutcome,
+  RuleFinding,
+  DEFAULT_RULES,
+} from './evaluator/rules';
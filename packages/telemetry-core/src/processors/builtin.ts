@@ -0,0 +1,34 @@
+/**
+ * Built-in Processors
+ *
+ * Common processors for a ProcessorPipeline
+ */
+
+import { TelemetryEvent } from '../events/types';
+import { NamedEventProcessor } from './pipeline';
+
+/**
+ * Add fields to every event's metadata (e.g. host or git SHA). Fields the
+ * event already has are kept.
+ */
+export function enrichMetadata(
+  fields: Record<string, unknown> | (() => Record<string, unknown>)
+): NamedEventProcessor {
+  return {
+    name: 'enrichMetadata',
+    process: event => ({
+      ...event,
+      metadata: { ...(typeof fields === 'function' ? fields() : fields), ...event.metadata },
+    }),
+  };
+}
+
+/**
+ * Drop events matching a predicate
+ */
+export function dropEvents(predicate: (event: TelemetryEvent) => boolean): NamedEventProcessor {
+  return {
+    name: 'dropEvents',
+    process: event => predicate(event) ? null : event,
+  };
+}
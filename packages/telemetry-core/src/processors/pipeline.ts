@@ -0,0 +1,115 @@
+/**
+ * Processor Pipeline
+ *
+ * Runs events through a chain of processors before they reach a transport,
+ * to enrich, filter or rewrite them. A processor that throws is skipped for
+ * that event and counted; the pipeline itself never throws.
+ */
+
+import { TelemetryEvent } from '../events/types';
+
+// ============ Processor Types ============
+
+/**
+ * Returns the event to pass on (the same object or a new one), or null to
+ * drop it. Returning nothing passes the event on as it is, so a processor
+ * may simply mutate it.
+ */
+export type EventProcessor = (
+  event: TelemetryEvent
+) => TelemetryEvent | null | void | Promise<TelemetryEvent | null | void>;
+
+/**
+ * A processor with a name, used in the stats and error logs
+ */
+export interface NamedEventProcessor {
+  name: string;
+  process: EventProcessor;
+}
+
+export interface ProcessorStats {
+  /**
+   * Events run through the pipeline
+   */
+  processed: number;
+  /**
+   * Events dropped by a processor
+   */
+  dropped: number;
+  /**
+   * Processor failures, in total and per processor name
+   */
+  errors: number;
+  errorsByProcessor: Record<string, number>;
+}
+
+function toNamedProcessor(processor: EventProcessor | NamedEventProcessor, index: number): NamedEventProcessor {
+  return typeof processor === 'function'
+    ? { name: processor.name || `processor[${index}]`, process: processor }
+    : processor;
+}
+
+// ============ Processor Pipeline ============
+
+export class ProcessorPipeline {
+  private processors: NamedEventProcessor[];
+  private stats: ProcessorStats = { processed: 0, dropped: 0, errors: 0, errorsByProcessor: {} };
+  
+  constructor(processors: Array<EventProcessor | NamedEventProcessor> = []) {
+    this.processors = processors.map(toNamedProcessor);
+  }
+  
+  get size(): number {
+    return this.processors.length;
+  }
+  
+  use(processor: EventProcessor | NamedEventProcessor): this {
+    this.processors.push(toNamedProcessor(processor, this.processors.length));
+    return this;
+  }
+  
+  /**
+   * Run one event through every processor. Returns null when it was dropped.
+   */
+  async process(event: TelemetryEvent): Promise<TelemetryEvent | null> {
+    this.stats.processed++;
+    
+    let current = event;
+    for (const processor of this.processors) {
+      try {
+        const result = await processor.process(current);
+        
+        if (result === null) {
+          this.stats.dropped++;
+          return null;
+        }
+        if (result) current = result;
+      } catch (error) {
+        this.stats.errors++;
+        this.stats.errorsByProcessor[processor.name] = (this.stats.errorsByProcessor[processor.name] ?? 0) + 1;
+        console.error(`[ProcessorPipeline] ${processor.name} failed:`, error);
+      }
+    }
+    
+    return current;
+  }
+  
+  async processBatch(events: TelemetryEvent[]): Promise<TelemetryEvent[]> {
+    const processed: TelemetryEvent[] = [];
+    
+    for (const event of events) {
+      const result = await this.process(event);
+      if (result) processed.push(result);
+    }
+    
+    return processed;
+  }
+  
+  getStats(): ProcessorStats {
+    return { ...this.stats, errorsByProcessor: { ...this.stats.errorsByProcessor } };
+  }
+  
+  resetStats(): void {
+    this.stats = { processed: 0, dropped: 0, errors: 0, errorsByProcessor: {} };
+  }
+}
@@ -5,6 +5,10 @@
  */
 
 import { TelemetryEvent } from '../events/types';
+import { TelemetryQuery, TelemetryQueryResult } from './query';
+import { DEFAULT_DETECTORS, DEFAULT_REDACT_FIELDS, RedactionDetector, redactValue } from './redaction';
+import { DEFAULT_REDACT_POLICY, RedactionPolicy } from './redaction-policy';
+import { PseudonymizationConfig } from './pseudonymization';
 
 // ============ Transport Configuration ============
 
@@ -33,6 +37,24 @@ export interface TransportConfig {
    * Fields to redact from event payloads
    */
   redactFields?: string[];
+  
+  /**
+   * Patterns to redact inside string values (default: DEFAULT_DETECTORS;
+   * pass an empty list to match key names only)
+   */
+  redactDetectors?: RedactionDetector[];
+  
+  /**
+   * Deny and allow rules by path, scoped by event type (default:
+   * DEFAULT_REDACT_POLICY, which keeps LLM token counts)
+   */
+  redactPolicy?: RedactionPolicy;
+  
+  /**
+   * Replace redacted values with stable `pii:<key id>:<hmac>` tokens instead
+   * of `[REDACTED]`, so they can still be grouped and counted
+   */
+  pseudonymize?: PseudonymizationConfig;
 }
 
 // ============ Transport Interface ============
@@ -68,53 +90,53 @@ export interface Transport {
    */
   queryByWorkflow(workflowId: string): Promise<TelemetryEvent[]>;
   
+  /**
+   * Query events matching a filter, one page at a time
+   */
+  query(filter: TelemetryQuery): Promise<TelemetryQueryResult>;
+  
   /**
    * Close the transport and cleanup resources
    */
   close(): Promise<void>;
 }
 
-// ============ Redaction Utility ============
+// ============ Redaction ============
 
-const DEFAULT_REDACT_FIELDS = [
-  'password',
-  'secret',
-  'token',
-  'api_key',
-  'apiKey',
-  'authorization',
-  'auth',
-  'credentials',
-  'private_key',
-  'privateKey',
-];
-
-export function redactSensitiveData(
-  obj: Record<string, unknown>,
-  fields: string[] = DEFAULT_REDACT_FIELDS
-): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-  
-  for (const [key, value] of Object.entries(obj)) {
-    const lowerKey = key.toLowerCase();
-    const shouldRedact = fields.some(f => lowerKey.includes(f.toLowerCase()));
-    
-    if (shouldRedact) {
-      result[key] = '[REDACTED]';
-    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
-      result[key] = redactSensitiveData(value as Record<string, unknown>, fields);
-    } else if (Array.isArray(value)) {
-      result[key] = value.map(item => 
-        item && typeof item === 'object' 
-          ? redactSensitiveData(item as Record<string, unknown>, fields)
-          : item
-      );
-    } else {
-      result[key] = value;
-    }
+/**
+ * Copy of an event with its payload and metadata redacted as the config
+ * says; the event itself when redaction is off
+ */
+export function redactEvent(event: TelemetryEvent, config: TransportConfig): TelemetryEvent {
+  if (!config.redactPayloads) return event;
+  
+  const prepared = { ...event };
+  const options = {
+    fields: config.redactFields,
+    detectors: config.redactDetectors,
+    policy: config.redactPolicy,
+    pseudonymize: config.pseudonymize,
+    eventType: event.event_type,
+  };
+  let redactions = 0;
+  
+  if (prepared.payload) {
+    const result = redactValue(prepared.payload, { ...options, path: ['payload'] });
+    prepared.payload = result.value;
+    redactions += result.redactions;
+  }
+  
+  if (prepared.metadata) {
+    const result = redactValue(prepared.metadata, { ...options, path: ['metadata'] });
+    prepared.metadata = result.value;
+    redactions += result.redactions;
+  }
+  
+  if (redactions > 0) {
+    prepared.redactions = (prepared.redactions ?? 0) + redactions;
   }
   
-  return result;
+  return prepared;
 }
 
 // ============ Abstract Base Transport ============
@@ -133,6 +155,8 @@ export abstract class BaseTransport implements Transport {
       flushIntervalMs: 5000,
       redactPayloads: true,
       redactFields: DEFAULT_REDACT_FIELDS,
+      redactDetectors: DEFAULT_DETECTORS,
+      redactPolicy: DEFAULT_REDACT_POLICY,
       ...config,
     };
     
@@ -145,25 +169,7 @@ export abstract class BaseTransport implements Transport {
   }
   
   protected prepareEvent(event: TelemetryEvent): TelemetryEvent {
-    if (!this.config.redactPayloads) return event;
-    
-    const prepared = { ...event };
-    
-    if (prepared.payload) {
-      prepared.payload = redactSensitiveData(
-        prepared.payload as Record<string, unknown>,
-        this.config.redactFields
-      );
-    }
-    
-    if (prepared.metadata) {
-      prepared.metadata = redactSensitiveData(
-        prepared.metadata,
-        this.config.redactFields
-      );
-    }
-    
-    return prepared;
+    return redactEvent(event, this.config);
   }
   
   async send(event: TelemetryEvent): Promise<void> {
@@ -203,6 +209,15 @@ export abstract class BaseTransport implements Transport {
     await this.doSendBatch(toFlush);
   }
   
+  /**
+   * Drop buffered events that were not sent yet. Returns how many were dropped.
+   */
+  protected removeBuffered(predicate: (event: TelemetryEvent) => boolean): number {
+    const before = this.buffer.length;
+    this.buffer = this.buffer.filter(event => !predicate(event));
+    return before - this.buffer.length;
+  }
+  
   async close(): Promise<void> {
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
@@ -219,4 +234,5 @@ export abstract class BaseTransport implements Transport {
   
   abstract queryByExecution(executionId: string): Promise<TelemetryEvent[]>;
   abstract queryByWorkflow(workflowId: string): Promise<TelemetryEvent[]>;
+  abstract query(filter: TelemetryQuery): Promise<TelemetryQueryResult>;
 }
@@ -0,0 +1,119 @@
+/**
+ * Encryption at Rest
+ *
+ * AES-256-GCM encryption of stored event lines. Each line is encrypted on
+ * its own, so files stay appendable and line-indexed:
+ *
+ *   enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>    (base64 parts)
+ *
+ * The key id in every line makes rotation safe: new lines use the first key,
+ * and lines written under older keys still decrypt while those keys are
+ * configured. Lines without the prefix are read as plain JSON, so a file can
+ * mix lines from before and after encryption was turned on.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+// ============ Configuration ============
+
+export interface EncryptionKey {
+  /**
+   * Short identifier written into every line, e.g. `k2`
+   */
+  id: string;
+  /**
+   * 32 bytes, or their base64 encoding (e.g. from `openssl rand -base64 32`)
+   */
+  key: string | Buffer;
+}
+
+export interface EncryptionConfig {
+  /**
+   * The first key encrypts new lines; all of them decrypt
+   */
+  keys: EncryptionKey[];
+}
+
+export const ENCRYPTED_LINE_PREFIX = 'enc:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+function toKeyBuffer(key: EncryptionKey): Buffer {
+  const buffer = typeof key.key === 'string' ? Buffer.from(key.key, 'base64') : key.key;
+  if (buffer.length !== KEY_BYTES) {
+    throw new Error(`Encryption key "${key.id}" must be ${KEY_BYTES} bytes, got ${buffer.length}`);
+  }
+  return buffer;
+}
+
+export function isEncryptedLine(line: string): boolean {
+  return line.startsWith(ENCRYPTED_LINE_PREFIX);
+}
+
+// ============ Line Cipher ============
+
+export class LineCipher {
+  private active: { id: string; key: Buffer };
+  private keys: Map<string, Buffer> = new Map();
+  
+  constructor(config: EncryptionConfig) {
+    if (config.keys.length === 0) {
+      throw new Error('Encryption needs at least one key');
+    }
+    
+    for (const key of config.keys) {
+      if (!key.id || key.id.includes(':')) {
+        throw new Error(`Invalid encryption key id "${key.id}"`);
+      }
+      this.keys.set(key.id, toKeyBuffer(key));
+    }
+    
+    const [first] = config.keys;
+    this.active = { id: first.id, key: this.keys.get(first.id)! };
+  }
+  
+  encrypt(line: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.active.key, iv);
+    // Bind the key id to the ciphertext, so it cannot be swapped
+    cipher.setAAD(Buffer.from(this.active.id));
+    const data = Buffer.concat([cipher.update(line, 'utf-8'), cipher.final()]);
+    
+    return `${ENCRYPTED_LINE_PREFIX}${this.active.id}:${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${data.toString('base64')}`;
+  }
+  
+  /**
+   * Plain text of a stored line; lines without the prefix are returned as
+   * they are. Throws for unknown keys and tampered lines.
+   */
+  decrypt(line: string): string {
+    if (!isEncryptedLine(line)) return line;
+    
+    const [id, iv, tag, data] = line.slice(ENCRYPTED_LINE_PREFIX.length).split(':');
+    const key = this.keys.get(id);
+    if (!key) {
+      throw new Error(`Unknown encryption key "${id}"`);
+    }
+    
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAAD(Buffer.from(id));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+  }
+}
+
+/**
+ * Read keys from `id:base64key` entries, active key first
+ */
+export function parseEncryptionKeys(entries: string[]): EncryptionKey[] {
+  return entries.map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('Invalid encryption key entry: expected id:base64key');
+    }
+    return { id: entry.slice(0, separator).trim(), key: entry.slice(separator + 1).trim() };
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Erasure
+ *
+ * Right-to-erasure support: which events belong to a data subject, and the
+ * audit record kept for every erasure. The record proves what was removed
+ * without storing the identifier being erased; it keeps only the filter's
+ * field names and a keyed or salted digest of its values, so the digest
+ * cannot be reversed by hashing guessed identifiers.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { TelemetryEvent } from '../events/types';
+import { matchesQuery } from './query';
+
+// ============ Erasure Types ============
+
+/**
+ * Events matching every given criterion are erased
+ */
+export interface ErasureFilter {
+  session_id?: string;
+  
+  /**
+   * Metadata fields that must equal the given values, e.g. `{ customer_id: 'c-42' }`
+   */
+  metadata?: Record<string, unknown>;
+}
+
+export interface ErasureRecord {
+  erased_at: string;
+  
+  /**
+   * Filter fields, e.g. ['session_id', 'metadata.customer_id']
+   */
+  fields: string[];
+  
+  /**
+   * HMAC-SHA256 of the filter values under the erasure digest key, or
+   * SHA-256 of `digest_salt` and the values; see matchesErasureRecord
+   */
+  filter_digest: string;
+  
+  /**
+   * Random salt, for records written without a digest key
+   */
+  digest_salt?: string;
+  
+  events_removed: number;
+  
+  /**
+   * Storage files that held matching events and were rewritten or deleted
+   */
+  files_rewritten: number;
+  
+  /**
+   * Stored lines that could not be read (e.g. encrypted under a key that is
+   * not configured) and were kept; they may still hold matching events
+   */
+  unreadable_lines: number;
+}
+
+// ============ Matching ============
+
+export function erasureFields(filter: ErasureFilter): string[] {
+  const fields: string[] = [];
+  if (filter.session_id !== undefined) fields.push('session_id');
+  for (const key of Object.keys(filter.metadata ?? {}).sort()) {
+    fields.push(`metadata.${key}`);
+  }
+  return fields;
+}
+
+/**
+ * Throws for a filter without criteria, which would erase every event
+ */
+export function assertErasureFilter(filter: ErasureFilter): void {
+  if (erasureFields(filter).length === 0) {
+    throw new Error('Erasure filter needs a session_id or metadata field');
+  }
+}
+
+export function matchesErasure(event: TelemetryEvent, filter: ErasureFilter): boolean {
+  return matchesQuery(event, { session_id: filter.session_id, metadata: filter.metadata });
+}
+
+function filterDigest(filter: ErasureFilter, key: string | undefined, salt: string | undefined): string {
+  const values = JSON.stringify(erasureFields(filter).map(field => field === 'session_id'
+    ? filter.session_id
+    : filter.metadata?.[field.slice('metadata.'.length)]));
+  
+  return key
+    ? createHmac('sha256', key).update(values).digest('hex')
+    : createHash('sha256').update(salt ?? '').update(values).digest('hex');
+}
+
+export function createErasureRecord(
+  filter: ErasureFilter,
+  counts: { removed: number; rewritten: number; unreadable: number },
+  digestKey?: string
+): ErasureRecord {
+  const salt = digestKey ? undefined : randomBytes(16).toString('hex');
+  
+  const record: ErasureRecord = {
+    erased_at: new Date().toISOString(),
+    fields: erasureFields(filter),
+    filter_digest: filterDigest(filter, digestKey, salt),
+    events_removed: counts.removed,
+    files_rewritten: counts.rewritten,
+    unreadable_lines: counts.unreadable,
+  };
+  if (salt) record.digest_salt = salt;
+  
+  return record;
+}
+
+/**
+ * Whether an audit record was written for this filter. Records with a
+ * keyed digest need the same key.
+ */
+export function matchesErasureRecord(record: ErasureRecord, filter: ErasureFilter, digestKey?: string): boolean {
+  if (!record.digest_salt && !digestKey) return false;
+  
+  const expected = Buffer.from(filterDigest(filter, record.digest_salt ? undefined : digestKey, record.digest_salt), 'hex');
+  const actual = Buffer.from(record.filter_digest, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
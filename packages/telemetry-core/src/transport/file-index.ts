@@ -0,0 +1,218 @@
+/**
+ * File Index
+ *
+ * Sidecar index for JSONL segments. Each segment `<file>` has an index
+ * `<file>.idx` with one JSON line per event recording the byte offset and
+ * length of the event line along with its execution and workflow IDs, so
+ * queries can read just the matching lines instead of the whole file.
+ *
+ * Offsets always refer to the uncompressed content of a segment.
+ */
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+import * as zlib from 'zlib';
+import { TelemetryEvent } from '../events/types';
+
+// ============ Index Entry ============
+
+export interface IndexEntry {
+  /** Byte offset of the event line */
+  o: number;
+  /** Byte length of the event line (without the newline) */
+  l: number;
+  /** Execution ID */
+  e: string;
+  /** Workflow ID */
+  w: string;
+}
+
+export function indexPathFor(segment: string): string {
+  return `${segment}.idx`;
+}
+
+export function isCompressed(segment: string): boolean {
+  return segment.endsWith('.gz');
+}
+
+export function toIndexLines(entries: IndexEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+}
+
+/**
+ * Turns a stored line into event JSON, e.g. by decrypting it
+ */
+export type LineDecoder = (line: string) => string;
+
+export function parseEventLine(line: Buffer, decode?: LineDecoder): TelemetryEvent {
+  const text = line.toString('utf-8');
+  return JSON.parse(decode ? decode(text) : text) as TelemetryEvent;
+}
+
+// ============ Line Scanning ============
+
+/**
+ * Stream a segment line by line, reporting each complete line with its byte offset.
+ * Resolves with the offset just past the last complete line.
+ */
+export async function scanLines(
+  segment: string,
+  start: number,
+  onLine: (line: Buffer, offset: number) => void
+): Promise<number> {
+  const compressed = isCompressed(segment);
+  const input = fs.createReadStream(segment, compressed ? {} : { start });
+  let stream: NodeJS.ReadableStream = input;
+
+  if (compressed) {
+    const gunzip = zlib.createGunzip();
+    input.on('error', error => gunzip.destroy(error));
+    stream = input.pipe(gunzip);
+  }
+
+  // Compressed segments are always scanned from the beginning
+  let offset = compressed ? 0 : start;
+  let pending: Buffer = Buffer.alloc(0);
+
+  for await (const chunk of stream) {
+    const buffer = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : chunk as Buffer;
+    let position = 0;
+    let newline: number;
+
+    while ((newline = buffer.indexOf(0x0a, position)) !== -1) {
+      if (offset + position >= start) {
+        onLine(buffer.subarray(position, newline), offset + position);
+      }
+      position = newline + 1;
+    }
+
+    offset += position;
+    pending = buffer.subarray(position);
+  }
+
+  return offset;
+}
+
+/**
+ * Build index entries for the lines of a segment starting at `start`
+ */
+export async function indexSegment(
+  segment: string,
+  start: number,
+  decode?: LineDecoder
+): Promise<{ entries: IndexEntry[]; end: number }> {
+  const entries: IndexEntry[] = [];
+
+  const end = await scanLines(segment, start, (line, offset) => {
+    try {
+      const event = parseEventLine(line, decode);
+      entries.push({ o: offset, l: line.length, e: event.execution_id, w: event.workflow_id });
+    } catch {
+      // Malformed lines are not indexed
+    }
+  });
+
+  return { entries, end };
+}
+
+// ============ Index Reading ============
+
+/**
+ * Offset just past the last line covered by an index, read from its tail
+ */
+export async function readIndexEnd(indexPath: string): Promise<number> {
+  let handle: fs.promises.FileHandle | undefined;
+
+  try {
+    handle = await fs.promises.open(indexPath, 'r');
+    const { size } = await handle.stat();
+    const length = Math.min(size, 4096);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+
+    const lines = buffer.toString('utf-8').split('\n').filter(line => line.trim());
+    for (let i = lines.length - 1; i >= 0; i--) {
+      try {
+        const entry = JSON.parse(lines[i]) as IndexEntry;
+        return entry.o + entry.l + 1;
+      } catch {
+        // Torn or truncated tail line; try the previous one
+      }
+    }
+  } catch {
+    // Missing index
+  } finally {
+    await handle?.close();
+  }
+
+  return 0;
+}
+
+/**
+ * Stream an index and collect the entries matching a predicate
+ */
+export async function lookupIndex(
+  indexPath: string,
+  predicate: (entry: IndexEntry) => boolean
+): Promise<IndexEntry[]> {
+  const matches: IndexEntry[] = [];
+  const lines = readline.createInterface({
+    input: fs.createReadStream(indexPath),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    if (!line) continue;
+
+    try {
+      const entry = JSON.parse(line) as IndexEntry;
+      if (predicate(entry)) matches.push(entry);
+    } catch {
+      // Skip torn lines
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Read the event lines at the given index entries
+ */
+export async function readEntries(
+  segment: string,
+  entries: IndexEntry[],
+  decode?: LineDecoder
+): Promise<TelemetryEvent[]> {
+  const events: TelemetryEvent[] = [];
+  if (entries.length === 0) return events;
+
+  const parse = (line: Buffer): void => {
+    try {
+      events.push(parseEventLine(line, decode));
+    } catch {
+      // Skip malformed lines
+    }
+  };
+
+  if (isCompressed(segment)) {
+    // Gzip cannot seek, so stream the segment and pick out the wanted offsets
+    const wanted = new Set(entries.map(entry => entry.o));
+    await scanLines(segment, 0, (line, offset) => {
+      if (wanted.has(offset)) parse(line);
+    });
+    return events;
+  }
+
+  const handle = await fs.promises.open(segment, 'r');
+  try {
+    for (const entry of entries) {
+      const buffer = Buffer.alloc(entry.l);
+      await handle.read(buffer, 0, entry.l, entry.o);
+      parse(buffer);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return events;
+}
@@ -1,13 +1,36 @@
 /**
  * File Transport
  * 
- * Writes telemetry events to a JSONL file with atomic append operations
+ * Writes telemetry events to a JSONL file with atomic append operations.
+ * A sidecar index per file lets queries read only the matching lines.
+ * Events of one data subject can be erased from every segment, and lines
+ * can be encrypted at rest with AES-256-GCM.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { pipeline } from 'stream/promises';
 import { TelemetryEvent } from '../events/types';
 import { BaseTransport, TransportConfig } from './base';
+import {
+  IndexEntry,
+  LineDecoder,
+  indexPathFor,
+  indexSegment,
+  isCompressed,
+  lookupIndex,
+  parseEventLine,
+  readEntries,
+  readIndexEnd,
+  scanLines,
+  toIndexLines,
+} from './file-index';
+import { EncryptionConfig, LineCipher } from './encryption';
+import { acquireLockFile } from './lock-file';
+import { ErasureFilter, ErasureRecord, assertErasureFilter, createErasureRecord, matchesErasure } from './erasure';
+import { TelemetryQuery, TelemetryQueryResult, createQueryCollector, queryEvents } from './query';
 
 // ============ File Transport Configuration ============
 
@@ -23,11 +46,71 @@ export interface FileTransportConfig extends TransportConfig {
   createDir?: boolean;
   
   /**
-   * Whether to use file locking for atomic writes
+   * Whether to use file locking for atomic writes. Writes and erasures hold
+   * `<file>.lock`, so other processes on the same file (e.g. the erase CLI)
+   * never interleave with them.
    */
   useLocking?: boolean;
+  
+  /**
+   * Rotate the active file into numbered segments
+   */
+  rotation?: FileRotationConfig;
+  
+  /**
+   * JSONL file that erase() appends its audit records to (default:
+   * `<name>.erasures<ext>` next to the file), or false to keep none
+   */
+  erasureAuditPath?: string | false;
+  
+  /**
+   * Secret for the HMAC of the erased values in audit records. Without one,
+   * each record gets a random salt instead.
+   */
+  erasureDigestKey?: string;
+  
+  /**
+   * Encrypt each stored line with AES-256-GCM. The sidecar indexes keep
+   * execution and workflow IDs in plain text.
+   */
+  encryption?: EncryptionConfig;
+}
+
+export interface FileRotationConfig {
+  /**
+   * Rotate before the active file would grow beyond this many bytes
+   */
+  maxBytes?: number;
+  
+  /**
+   * Rotate when the UTC day or hour changes
+   */
+  interval?: 'daily' | 'hourly';
+  
+  /**
+   * Gzip rotated segments
+   */
+  compress?: boolean;
+  
+  /**
+   * Maximum number of rotated segments to keep (oldest are deleted first)
+   */
+  maxSegments?: number;
 }
 
+// ============ Segment Helpers ============
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function periodKey(date: Date, interval: 'daily' | 'hourly'): string {
+  const iso = date.toISOString();
+  return interval === 'daily' ? iso.slice(0, 10) : iso.slice(0, 13);
+}
+
+const gzip = promisify(zlib.gzip);
+
 // ============ Simple File Lock ============
 
 class FileLock {
@@ -63,12 +146,32 @@ export class FileTransport extends BaseTransport {
   
   private filePath: string;
   private fileHandle?: fs.promises.FileHandle;
-  private inMemoryStore: TelemetryEvent[] = [];
+  
+  private rotation?: FileRotationConfig;
+  private segmentPattern: RegExp;
+  private cipher?: LineCipher;
+  private decode?: LineDecoder;
+  
+  // Size of the active file covered by its index
+  private activeSize?: number;
+  private activePeriod?: string;
   
   constructor(config: FileTransportConfig) {
     super(config);
     
     this.filePath = path.resolve(config.filePath);
+    this.rotation = config.rotation;
+    
+    if (config.encryption) {
+      const cipher = new LineCipher(config.encryption);
+      this.cipher = cipher;
+      this.decode = line => cipher.decrypt(line);
+    }
+    
+    const { name, ext } = path.parse(this.filePath);
+    this.segmentPattern = new RegExp(
+      `^${escapeRegExp(name)}\\.\\d{8}T\\d{9}\\.\\d{3}${escapeRegExp(ext)}(\\.gz)?$`
+    );
     
     // Create directory if needed
     if (config.createDir !== false) {
@@ -77,93 +180,408 @@ export class FileTransport extends BaseTransport {
         fs.mkdirSync(dir, { recursive: true });
       }
     }
+  }
+  
+  /**
+   * All segment files in chronological order: rotated segments, then the active file
+   */
+  private listSegments(): string[] {
+    const dir = path.dirname(this.filePath);
+    const rotated = fs.existsSync(dir)
+      ? fs.readdirSync(dir)
+        .filter(name => this.segmentPattern.test(name))
+        .sort()
+        .map(name => path.join(dir, name))
+      : [];
     
-    // Load existing events into memory for querying
-    this.loadExistingEvents();
+    return fs.existsSync(this.filePath) ? [...rotated, this.filePath] : rotated;
   }
   
-  private loadExistingEvents(): void {
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const config = this.config as FileTransportConfig;
+    
+    if (config.useLocking === false) {
+      return fn();
+    }
+    
+    const release = await globalLock.acquire(this.filePath);
     try {
-      if (fs.existsSync(this.filePath)) {
-        const content = fs.readFileSync(this.filePath, 'utf-8');
-        const lines = content.trim().split('\n').filter(line => line.trim());
-        
-        for (const line of lines) {
-          try {
-            const event = JSON.parse(line) as TelemetryEvent;
-            this.inMemoryStore.push(event);
-          } catch {
-            // Skip malformed lines
-          }
-        }
+      const releaseFile = await acquireLockFile(`${this.filePath}.lock`);
+      try {
+        return await fn();
+      } finally {
+        await releaseFile();
       }
-    } catch (error) {
-      console.error('[FileTransport] Error loading existing events:', error);
+    } finally {
+      release();
     }
   }
   
   protected async doSend(event: TelemetryEvent): Promise<void> {
     await this.appendToFile([event]);
-    this.inMemoryStore.push(event);
   }
   
   protected async doSendBatch(events: TelemetryEvent[]): Promise<void> {
     await this.appendToFile(events);
-    this.inMemoryStore.push(...events);
   }
   
   private async appendToFile(events: TelemetryEvent[]): Promise<void> {
-    const config = this.config as FileTransportConfig;
+    const lines = events.map(e => this.cipher ? this.cipher.encrypt(JSON.stringify(e)) : JSON.stringify(e));
+    
+    await this.withLock(() => this.writeLines(events, lines));
+  }
+  
+  private async writeLines(events: TelemetryEvent[], lines: string[]): Promise<void> {
+    const content = lines.join('\n') + '\n';
+    
+    await this.syncActiveIndex();
+    
+    if (this.rotation) {
+      await this.rotateIfNeeded(Buffer.byteLength(content));
+    }
+    
+    let offset = this.activeSize ?? 0;
+    const entries: IndexEntry[] = events.map((event, i) => {
+      const length = Buffer.byteLength(lines[i]);
+      const entry = { o: offset, l: length, e: event.execution_id, w: event.workflow_id };
+      offset += length + 1;
+      return entry;
+    });
+    
+    await fs.promises.appendFile(this.filePath, content, 'utf-8');
+    await fs.promises.appendFile(indexPathFor(this.filePath), toIndexLines(entries), 'utf-8');
+    
+    this.activeSize = offset;
+  }
+  
+  // ============ Index Maintenance ============
+  
+  /**
+   * Bring the active file's index up to date with lines written by other
+   * processes, older versions, or lost to a crash between data and index writes
+   */
+  private async syncActiveIndex(): Promise<void> {
+    let size = 0;
+    try {
+      size = (await fs.promises.stat(this.filePath)).size;
+    } catch {
+      // No active file yet
+    }
+    
+    if (this.activeSize === size) return;
+    
+    size = await this.terminateLastLine(size);
+    
+    // Resume from the index, not from what this process last wrote: other
+    // processes index their own lines after appending them
+    const indexPath = indexPathFor(this.filePath);
+    let indexed = await readIndexEnd(indexPath);
+    
+    // The file was truncated or replaced underneath the index
+    if (indexed > size) {
+      await fs.promises.writeFile(indexPath, '', 'utf-8');
+      indexed = 0;
+    }
+    
+    if (indexed < size) {
+      const { entries } = await indexSegment(this.filePath, indexed, this.decode);
+      await fs.promises.appendFile(indexPath, entries.length > 0 ? toIndexLines(entries) : '', 'utf-8');
+    }
+    
+    this.activeSize = size;
+  }
+  
+  /**
+   * Ensure the active file ends with a newline, so a torn last line
+   * is never merged with the next append
+   */
+  private async terminateLastLine(size: number): Promise<number> {
+    if (size === 0) return size;
+    
+    const handle = await fs.promises.open(this.filePath, 'r');
+    const last = Buffer.alloc(1);
+    try {
+      await handle.read(last, 0, 1, size - 1);
+    } finally {
+      await handle.close();
+    }
+    
+    if (last[0] === 0x0a) return size;
+    
+    await fs.promises.appendFile(this.filePath, '\n', 'utf-8');
+    return size + 1;
+  }
+  
+  /**
+   * Index path for a segment, building the index first if it is missing or stale
+   */
+  private async ensureIndex(segment: string): Promise<string> {
+    const indexPath = indexPathFor(segment);
+    
+    if (segment === this.filePath) {
+      await this.withLock(() => this.syncActiveIndex());
+    } else if (!fs.existsSync(indexPath)) {
+      const { entries } = await indexSegment(segment, 0, this.decode);
+      await fs.promises.writeFile(indexPath, entries.length > 0 ? toIndexLines(entries) : '', 'utf-8');
+    }
+    
+    return indexPath;
+  }
+  
+  // ============ Rotation ============
+  
+  private async rotateIfNeeded(incomingBytes: number): Promise<void> {
+    const { maxBytes, interval } = this.rotation!;
+    const activeSize = this.activeSize ?? 0;
+    const now = new Date();
+    
+    if (interval && this.activePeriod === undefined && activeSize > 0) {
+      const stats = await fs.promises.stat(this.filePath);
+      this.activePeriod = periodKey(stats.mtime, interval);
+    }
+    
+    const currentPeriod = interval ? periodKey(now, interval) : undefined;
     
-    const lines = events.map(e => JSON.stringify(e)).join('\n') + '\n';
+    if (activeSize > 0) {
+      const sizeExceeded = maxBytes !== undefined && activeSize + incomingBytes > maxBytes;
+      const periodChanged = currentPeriod !== undefined && this.activePeriod !== currentPeriod;
+      
+      if (sizeExceeded || periodChanged) {
+        await this.rotate(now);
+      }
+    }
     
-    if (config.useLocking !== false) {
-      const release = await globalLock.acquire(this.filePath);
+    this.activePeriod = currentPeriod;
+  }
+  
+  private async rotate(now: Date): Promise<void> {
+    const { compress, maxSegments } = this.rotation!;
+    const { dir, name, ext } = path.parse(this.filePath);
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace('.', '').slice(0, 18);
+    
+    let target: string;
+    let seq = 0;
+    do {
+      target = path.join(dir, `${name}.${stamp}.${String(seq++).padStart(3, '0')}${ext}`);
+    } while (fs.existsSync(target) || fs.existsSync(`${target}.gz`));
+    
+    await fs.promises.rename(this.filePath, target);
+    await fs.promises.rename(indexPathFor(this.filePath), indexPathFor(target));
+    this.activeSize = 0;
+    
+    if (compress) {
+      await pipeline(
+        fs.createReadStream(target),
+        zlib.createGzip(),
+        fs.createWriteStream(`${target}.gz`)
+      );
+      await fs.promises.rename(indexPathFor(target), indexPathFor(`${target}.gz`));
+      await fs.promises.unlink(target);
+    }
+    
+    if (maxSegments !== undefined) {
+      const rotated = this.listSegments().filter(segment => segment !== this.filePath);
+      const excess = rotated.slice(0, Math.max(0, rotated.length - maxSegments));
+      
+      for (const segment of excess) {
+        await fs.promises.unlink(segment);
+        await fs.promises.rm(indexPathFor(segment), { force: true });
+      }
+    }
+  }
+  
+  // ============ Erasure ============
+  
+  /**
+   * Remove every stored and buffered event matching the filter. Each segment
+   * holding a match is rewritten to a temporary file and renamed over the
+   * original, so a crash leaves either the old or the new content.
+   * Lines that cannot be read (a missing key, a torn write) are kept and
+   * counted in `unreadable_lines`, since they may hold the subject's events.
+   */
+  async erase(filter: ErasureFilter): Promise<ErasureRecord> {
+    assertErasureFilter(filter);
+    const matches = (event: TelemetryEvent) => matchesErasure(event, filter);
+    const { erasureDigestKey } = this.config as FileTransportConfig;
+    
+    const record = await this.withLock(async () => {
+      let removed = this.removeBuffered(matches);
+      let rewritten = 0;
+      let unreadable = 0;
+      
+      await this.syncActiveIndex();
+      
+      for (const segment of this.listSegments()) {
+        const result = await this.eraseFromSegment(segment, matches);
+        unreadable += result.unreadable;
+        if (result.removed > 0) {
+          removed += result.removed;
+          rewritten++;
+        }
+      }
+      
+      return createErasureRecord(filter, { removed, rewritten, unreadable }, erasureDigestKey);
+    });
+    
+    await this.writeErasureAudit(record);
+    return record;
+  }
+  
+  /**
+   * Rewrite a segment without the matching lines; returns how many were
+   * removed and how many could not be read
+   */
+  private async eraseFromSegment(
+    segment: string,
+    matches: (event: TelemetryEvent) => boolean
+  ): Promise<{ removed: number; unreadable: number }> {
+    const kept: string[] = [];
+    const entries: IndexEntry[] = [];
+    let offset = 0;
+    let removed = 0;
+    let unreadable = 0;
+    
+    await scanLines(segment, 0, line => {
+      let event: TelemetryEvent | undefined;
       try {
-        await fs.promises.appendFile(this.filePath, lines, 'utf-8');
-      } finally {
-        release();
+        event = parseEventLine(line, this.decode);
+      } catch {
+        // Malformed or undecryptable lines are kept as they are, without an index entry
+        if (line.length > 0) unreadable++;
+      }
+      
+      if (event && matches(event)) {
+        removed++;
+        return;
+      }
+      
+      if (event) {
+        entries.push({ o: offset, l: line.length, e: event.execution_id, w: event.workflow_id });
       }
-    } else {
-      await fs.promises.appendFile(this.filePath, lines, 'utf-8');
+      kept.push(line.toString('utf-8'));
+      offset += line.length + 1;
+    });
+    
+    if (removed === 0) return { removed, unreadable };
+    
+    const indexPath = indexPathFor(segment);
+    
+    // A missing index is rebuilt on the next query, a stale one would point at wrong lines
+    await fs.promises.rm(indexPath, { force: true });
+    
+    if (kept.length === 0 && segment !== this.filePath) {
+      await fs.promises.unlink(segment);
+      return { removed, unreadable };
+    }
+    
+    const content = kept.length > 0 ? kept.join('\n') + '\n' : '';
+    const temp = `${segment}.erasing`;
+    await fs.promises.writeFile(temp, isCompressed(segment) ? await gzip(content) : content);
+    await fs.promises.rename(temp, segment);
+    await fs.promises.writeFile(indexPath, entries.length > 0 ? toIndexLines(entries) : '', 'utf-8');
+    
+    if (segment === this.filePath) {
+      this.activeSize = offset;
     }
+    
+    return { removed, unreadable };
   }
   
+  private async writeErasureAudit(record: ErasureRecord): Promise<void> {
+    const { erasureAuditPath } = this.config as FileTransportConfig;
+    if (erasureAuditPath === false) return;
+    
+    const { dir, name, ext } = path.parse(this.filePath);
+    const auditPath = erasureAuditPath ?? path.join(dir, `${name}.erasures${ext}`);
+    await fs.promises.appendFile(auditPath, JSON.stringify(record) + '\n', 'utf-8');
+  }
+  
+  // ============ Queries ============
+  
   async queryByExecution(executionId: string): Promise<TelemetryEvent[]> {
-    return this.inMemoryStore.filter(e => e.execution_id === executionId);
+    return this.queryIndexed(entry => entry.e === executionId);
   }
   
   async queryByWorkflow(workflowId: string): Promise<TelemetryEvent[]> {
-    return this.inMemoryStore.filter(e => e.workflow_id === workflowId);
+    return this.queryIndexed(entry => entry.w === workflowId);
+  }
+  
+  /**
+   * Filters on execution or workflow ID use the index; anything else streams the segments
+   */
+  async query(filter: TelemetryQuery): Promise<TelemetryQueryResult> {
+    const { execution_id, workflow_id } = filter;
+    
+    if (execution_id !== undefined || workflow_id !== undefined) {
+      const events = await this.queryIndexed(entry =>
+        (execution_id === undefined || entry.e === execution_id) &&
+        (workflow_id === undefined || entry.w === workflow_id)
+      );
+      return queryEvents(events, filter);
+    }
+    
+    const collector = createQueryCollector(filter);
+    let full = false;
+    
+    try {
+      for (const segment of this.listSegments()) {
+        await scanLines(segment, 0, line => {
+          if (full) return;
+          
+          try {
+            full = !collector.offer(parseEventLine(line, this.decode));
+          } catch {
+            // Skip malformed lines
+          }
+        });
+        
+        if (full) break;
+      }
+    } catch (error) {
+      console.error('[FileTransport] Error querying events:', error);
+    }
+    
+    return collector.result();
+  }
+  
+  private async queryIndexed(predicate: (entry: IndexEntry) => boolean): Promise<TelemetryEvent[]> {
+    const events: TelemetryEvent[] = [];
+    
+    try {
+      for (const segment of this.listSegments()) {
+        const indexPath = await this.ensureIndex(segment);
+        const entries = await lookupIndex(indexPath, predicate);
+        events.push(...await readEntries(segment, entries, this.decode));
+      }
+    } catch (error) {
+      console.error('[FileTransport] Error querying events:', error);
+    }
+    
+    return events;
   }
   
   /**
    * Query all events (for debugging/viewing)
    */
   async queryAll(): Promise<TelemetryEvent[]> {
-    return [...this.inMemoryStore];
+    return this.readFromFile();
   }
   
   /**
-   * Get events from file (re-reads file)
+   * Get events from file (streams the rotated segments and the active file)
    */
   async readFromFile(): Promise<TelemetryEvent[]> {
     const events: TelemetryEvent[] = [];
     
     try {
-      if (!fs.existsSync(this.filePath)) {
-        return events;
-      }
-      
-      const content = await fs.promises.readFile(this.filePath, 'utf-8');
-      const lines = content.trim().split('\n').filter(line => line.trim());
-      
-      for (const line of lines) {
-        try {
-          events.push(JSON.parse(line) as TelemetryEvent);
-        } catch {
-          // Skip malformed lines
-        }
+      for (const segment of this.listSegments()) {
+        await scanLines(segment, 0, line => {
+          try {
+            events.push(parseEventLine(line, this.decode));
+          } catch {
+            // Skip malformed lines
+          }
+        });
       }
     } catch (error) {
       console.error('[FileTransport] Error reading file:', error);
@@ -183,10 +601,20 @@ export class FileTransport extends BaseTransport {
    * Clear all events (for testing)
    */
   async clear(): Promise<void> {
-    this.inMemoryStore = [];
-    
-    if (fs.existsSync(this.filePath)) {
-      await fs.promises.writeFile(this.filePath, '', 'utf-8');
-    }
+    await this.withLock(async () => {
+      for (const segment of this.listSegments()) {
+        if (segment !== this.filePath) {
+          await fs.promises.unlink(segment);
+          await fs.promises.rm(indexPathFor(segment), { force: true });
+        }
+      }
+      
+      if (fs.existsSync(this.filePath)) {
+        await fs.promises.writeFile(this.filePath, '', 'utf-8');
+      }
+      await fs.promises.rm(indexPathFor(this.filePath), { force: true });
+      
+      this.activeSize = undefined;
+    });
   }
 }
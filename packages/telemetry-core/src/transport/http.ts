@@ -9,6 +9,8 @@ import * as https from 'https';
 import { URL } from 'url';
 import { TelemetryEvent } from '../events/types';
 import { BaseTransport, TransportConfig } from './base';
+import { Outbox, OutboxConfig, OutboxStats } from './outbox';
+import { TelemetryQuery, TelemetryQueryResult, queryEvents } from './query';
 
 // ============ HTTP Transport Configuration ============
 
@@ -37,12 +39,37 @@ export interface HttpTransportConfig extends TransportConfig {
    * Delay between retries in milliseconds
    */
   retryDelayMs?: number;
+  
+  /**
+   * Persist events to an on-disk outbox before delivery. Pending events are
+   * replayed on startup and drained in the background with exponential backoff
+   * instead of the fixed `retries`.
+   */
+  outbox?: OutboxConfig;
+}
+
+/**
+ * Response outside 2xx
+ */
+class HttpStatusError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`HTTP ${status}: ${body}`);
+  }
+}
+
+/**
+ * Client errors other than 408 and 429 fail the same way on every retry
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof HttpStatusError
+    && error.status >= 400 && error.status < 500
+    && error.status !== 408 && error.status !== 429;
 }
 
 // ============ HTTP Transport Implementation ============
 
 export class HttpTransport extends BaseTransport {
-  readonly name = 'http';
+  readonly name: string = 'http';
   
   private endpoint: URL;
   private headers: Record<string, string>;
@@ -50,13 +77,21 @@ export class HttpTransport extends BaseTransport {
   private retries: number;
   private retryDelayMs: number;
   
+  private outbox?: Outbox;
+  private minBackoffMs: number;
+  private maxBackoffMs: number;
+  private backoffMs = 0;
+  private drainTimer?: NodeJS.Timeout;
+  private drainPromise?: Promise<void>;
+  
   // In-memory store for querying (optional, could be disabled)
   private eventCache: Map<string, TelemetryEvent[]> = new Map();
   
   constructor(config: HttpTransportConfig) {
     super({
       ...config,
-      buffered: config.buffered ?? true,
+      // With an outbox, events go straight to disk instead of an in-memory buffer
+      buffered: config.outbox ? false : config.buffered ?? true,
       bufferSize: config.bufferSize ?? 50,
     });
     
@@ -68,26 +103,125 @@ export class HttpTransport extends BaseTransport {
     this.timeoutMs = config.timeoutMs ?? 10000;
     this.retries = config.retries ?? 3;
     this.retryDelayMs = config.retryDelayMs ?? 1000;
+    this.minBackoffMs = config.outbox?.minBackoffMs ?? 1000;
+    this.maxBackoffMs = config.outbox?.maxBackoffMs ?? 60000;
+    
+    if (config.outbox) {
+      this.outbox = new Outbox(config.outbox);
+      
+      // Replay anything left over from a previous run
+      this.scheduleDrain(0);
+    }
   }
   
   protected async doSend(event: TelemetryEvent): Promise<void> {
-    await this.sendToEndpoint([event]);
-    this.cacheEvent(event);
+    await this.doSendBatch([event]);
   }
   
   protected async doSendBatch(events: TelemetryEvent[]): Promise<void> {
+    if (this.outbox) {
+      await this.outbox.append(events);
+      this.scheduleDrain(0);
+      return;
+    }
+    
     await this.sendToEndpoint(events);
     events.forEach(e => this.cacheEvent(e));
   }
   
+  async flush(): Promise<void> {
+    await super.flush();
+    
+    if (this.outbox) {
+      await this.drainOutbox();
+    }
+  }
+  
+  private scheduleDrain(delayMs: number): void {
+    if (this.drainTimer) return;
+    
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = undefined;
+      this.drainOutbox();
+    }, delayMs);
+    this.drainTimer.unref();
+  }
+  
+  /**
+   * Deliver pending outbox events in order. Failures are kept on disk and
+   * retried later with exponential backoff, except batches the endpoint
+   * rejects for good, which are dead-lettered; this never throws.
+   */
+  private drainOutbox(): Promise<void> {
+    if (!this.drainPromise) {
+      this.drainPromise = this.drainPending().finally(() => {
+        this.drainPromise = undefined;
+      });
+    }
+    
+    return this.drainPromise;
+  }
+  
+  private async drainPending(): Promise<void> {
+    const outbox = this.outbox!;
+    
+    try {
+      while (outbox.hasPending()) {
+        const batch = await outbox.read(this.config.bufferSize || 50);
+        if (!batch) break;
+        
+        if (batch.events.length > 0) {
+          const body = this.serializeEvents(batch.events);
+          try {
+            if (body !== null) {
+              await this.makeRequest(body);
+            }
+            batch.events.forEach(e => this.cacheEvent(e));
+          } catch (error) {
+            if (!isPermanentFailure(error)) throw error;
+            
+            await outbox.deadLetter(batch.events);
+            console.error(`[HttpTransport] Endpoint rejected ${batch.events.length} event(s), moved to the dead-letter file:`, error);
+          }
+        }
+        
+        await outbox.ack(batch.next);
+      }
+      
+      this.backoffMs = 0;
+    } catch (error) {
+      this.backoffMs = Math.min(
+        this.maxBackoffMs,
+        this.backoffMs ? this.backoffMs * 2 : this.minBackoffMs
+      );
+      console.error(`[HttpTransport] Outbox delivery failed, retrying in ${this.backoffMs}ms:`, error);
+      this.scheduleDrain(this.backoffMs);
+    }
+  }
+  
+  /**
+   * Spool size and lost events, when delivery goes through an outbox
+   */
+  getOutboxStats(): OutboxStats | undefined {
+    return this.outbox?.getStats();
+  }
+  
   private cacheEvent(event: TelemetryEvent): void {
     const executionEvents = this.eventCache.get(event.execution_id) || [];
     executionEvents.push(event);
     this.eventCache.set(event.execution_id, executionEvents);
   }
   
+  /**
+   * Build the request body for a batch of events. Returning null skips the request.
+   */
+  protected serializeEvents(events: TelemetryEvent[]): string | null {
+    return JSON.stringify({ events });
+  }
+  
   private async sendToEndpoint(events: TelemetryEvent[]): Promise<void> {
-    const body = JSON.stringify({ events });
+    const body = this.serializeEvents(events);
+    if (body === null) return;
     
     let lastError: Error | undefined;
     
@@ -98,6 +232,7 @@ export class HttpTransport extends BaseTransport {
       } catch (error) {
         lastError = error as Error;
         
+        if (isPermanentFailure(error)) break;
         if (attempt < this.retries) {
           await this.delay(this.retryDelayMs * (attempt + 1));
         }
@@ -136,7 +271,7 @@ export class HttpTransport extends BaseTransport {
           if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
             resolve();
           } else {
-            reject(new Error(`HTTP ${res.statusCode}: ${responseBody}`));
+            reject(new HttpStatusError(res.statusCode ?? 0, responseBody));
           }
         });
       });
@@ -170,7 +305,22 @@ export class HttpTransport extends BaseTransport {
     return events;
   }
   
+  async query(filter: TelemetryQuery): Promise<TelemetryQueryResult> {
+    if (filter.execution_id !== undefined) {
+      return queryEvents(this.eventCache.get(filter.execution_id) || [], filter);
+    }
+    
+    const events = [...this.eventCache.values()]
+      .flat()
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    
+    return queryEvents(events, filter);
+  }
+  
   protected async doClose(): Promise<void> {
-    // Nothing to close for HTTP transport
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
+    }
   }
 }
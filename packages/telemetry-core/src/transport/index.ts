@@ -1,4 +1,12 @@
 export * from './base';
+export * from './encryption';
+export * from './erasure';
 export * from './file';
 export * from './http';
 export * from './multi';
+export * from './otlp';
+export * from './outbox';
+export * from './pseudonymization';
+export * from './query';
+export * from './redaction';
+export * from './redaction-policy';
@@ -0,0 +1,65 @@
+/**
+ * Lock Files
+ *
+ * Cross-process mutual exclusion through a file created exclusively next to
+ * the resource it guards. Processes sharing a directory (n8n main, webhook
+ * and workers, or a CLI next to a running n8n) wait for each other on it.
+ */
+
+import * as fs from 'fs';
+
+const LOCK_RETRY_MS = 20;
+const LOCK_STALE_MS = 30000;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * A lock file not refreshed for LOCK_STALE_MS was left by a crashed process.
+ * It is renamed away first, so only one waiter can take it over.
+ */
+async function removeStaleLock(lockPath: string): Promise<void> {
+  try {
+    const { mtimeMs } = await fs.promises.stat(lockPath);
+    if (Date.now() - mtimeMs < LOCK_STALE_MS) return;
+    
+    const stale = `${lockPath}.${process.pid}.stale`;
+    await fs.promises.rename(lockPath, stale);
+    await fs.promises.rm(stale, { force: true });
+  } catch {
+    // Released or taken over meanwhile
+  }
+}
+
+/**
+ * Create the lock file exclusively, waiting while another process holds it.
+ * The holder refreshes its mtime, so a live lock never goes stale. Resolves
+ * with the function that releases it.
+ */
+export async function acquireLockFile(lockPath: string): Promise<() => Promise<void>> {
+  for (;;) {
+    try {
+      const handle = await fs.promises.open(lockPath, 'wx');
+      await handle.writeFile(`${process.pid}\n`, 'utf-8');
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      
+      await removeStaleLock(lockPath);
+      await delay(LOCK_RETRY_MS);
+    }
+  }
+  
+  const refresh = setInterval(() => {
+    const now = new Date();
+    fs.promises.utimes(lockPath, now, now).catch(() => undefined);
+  }, LOCK_STALE_MS / 3);
+  refresh.unref();
+  
+  return async () => {
+    clearInterval(refresh);
+    await fs.promises.rm(lockPath, { force: true });
+  };
+}
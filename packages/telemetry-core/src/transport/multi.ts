@@ -6,6 +6,29 @@
 
 import { TelemetryEvent } from '../events/types';
 import { Transport } from './base';
+import { TelemetryQuery, TelemetryQueryResult } from './query';
+
+// ============ Cursors ============
+
+function wrapCursor(result: TelemetryQueryResult, index: number): TelemetryQueryResult {
+  if (!result.next_cursor) return result;
+  
+  const next_cursor = Buffer.from(JSON.stringify({ t: index, c: result.next_cursor })).toString('base64url');
+  return { ...result, next_cursor };
+}
+
+function decodeMultiCursor(cursor: string): { index: number; cursor: string } {
+  try {
+    const { t, c } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(t) && t >= 0 && typeof c === 'string') return { index: t, cursor: c };
+  } catch {
+    // Fall through to the error below
+  }
+  
+  throw new Error(`Invalid query cursor: ${cursor}`);
+}
+
+// ============ Multi Transport ============
 
 export class MultiTransport implements Transport {
   readonly name = 'multi';
@@ -62,6 +85,28 @@ export class MultiTransport implements Transport {
     return [];
   }
   
+  /**
+   * Pages come from the first transport with results. The cursor records that
+   * transport, so later pages continue from it and never reuse its offset elsewhere.
+   */
+  async query(filter: TelemetryQuery): Promise<TelemetryQueryResult> {
+    if (filter.cursor) {
+      const { index, cursor } = decodeMultiCursor(filter.cursor);
+      const transport = this.transports[index];
+      if (!transport) return { events: [] };
+      
+      return wrapCursor(await transport.query({ ...filter, cursor }), index);
+    }
+    
+    for (let index = 0; index < this.transports.length; index++) {
+      const result = await this.transports[index].query(filter);
+      if (result.events.length > 0) {
+        return wrapCursor(result, index);
+      }
+    }
+    return { events: [] };
+  }
+  
   async close(): Promise<void> {
     await Promise.all(
       this.transports.map(t => t.close().catch(err => {
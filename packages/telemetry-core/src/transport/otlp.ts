@@ -0,0 +1,369 @@
+/**
+ * OTLP Transport
+ *
+ * Converts workflow and node lifecycle events into OpenTelemetry spans
+ * and exports them to an OTLP/HTTP collector using the JSON encoding
+ */
+
+import { TelemetryEvent, EventTypes } from '../events/types';
+import { deriveTraceId, deriveSpanId, deriveWorkflowSpanId } from '../events/trace-context';
+import { HttpTransport, HttpTransportConfig } from './http';
+
+// ============ OTLP Transport Configuration ============
+
+export interface OtlpTransportConfig extends Omit<HttpTransportConfig, 'endpoint'> {
+  /**
+   * OTLP/HTTP traces endpoint (default: http://localhost:4318/v1/traces)
+   */
+  endpoint?: string;
+  
+  /**
+   * Value of the `service.name` resource attribute
+   */
+  serviceName?: string;
+  
+  /**
+   * Additional resource attributes attached to every exported span
+   */
+  resourceAttributes?: Record<string, string | number | boolean>;
+  
+  /**
+   * Drop start events of executions with no new event for this long (default: 24h)
+   */
+  openSpanTtlMs?: number;
+  
+  /**
+   * Most executions with start events waiting for their end event (default: 10000);
+   * the least recently active are dropped first
+   */
+  maxOpenExecutions?: number;
+  
+  /**
+   * Most built spans kept so an outbox retry resends the same spans (default:
+   * twice `bufferSize`, the outbox batch size). The outbox retries only its
+   * oldest unacknowledged batch and builds no other spans until it succeeds,
+   * so this is never below `bufferSize`.
+   */
+  maxCachedSpans?: number;
+}
+
+// ============ OTLP JSON Types ============
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events?: Array<{ name: string; timeUnixNano: string; attributes: OtlpKeyValue[] }>;
+  status: { code: number; message?: string };
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318/v1/traces';
+const SCOPE_NAME = '@n8n-telemetry/core';
+const DEFAULT_OPEN_SPAN_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_OPEN_EXECUTIONS = 10000;
+
+/**
+ * Start events of one execution waiting for their end event
+ */
+interface OpenExecution {
+  workflow?: TelemetryEvent;
+  // Node start events by node key, in start order, keyed by event ID
+  nodes: Map<string, Map<string, TelemetryEvent>>;
+  touchedAt: number;
+}
+
+// ============ Span Helpers ============
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * BigInt(1000000)).toString();
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: JSON.stringify(value) };
+}
+
+function pushAttributes(
+  target: OtlpKeyValue[],
+  prefix: string,
+  values: Record<string, unknown> | undefined
+): void {
+  if (!values) return;
+  
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || value === null) continue;
+    target.push({ key: `${prefix}${key}`, value: toAnyValue(value) });
+  }
+}
+
+// ============ OTLP Transport Implementation ============
+
+export class OtlpTransport extends HttpTransport {
+  readonly name: string = 'otlp';
+  
+  private resourceAttributes: OtlpKeyValue[];
+  private openSpanTtlMs: number;
+  private maxOpenExecutions: number;
+  private maxCachedSpans: number;
+  
+  // Start events waiting for their end event, least recently active first
+  private open: Map<string, OpenExecution> = new Map();
+  
+  // Spans already built per event ID, so a batch sent again (an outbox retry)
+  // serializes the same way instead of pairing its events a second time
+  private built: Map<string, OtlpSpan | null> = new Map();
+  
+  constructor(config: OtlpTransportConfig = {}) {
+    super({
+      ...config,
+      endpoint: config.endpoint ?? DEFAULT_OTLP_ENDPOINT,
+    });
+    
+    this.resourceAttributes = [];
+    pushAttributes(this.resourceAttributes, '', {
+      'service.name': config.serviceName ?? 'n8n',
+      ...config.resourceAttributes,
+    });
+    this.openSpanTtlMs = config.openSpanTtlMs ?? DEFAULT_OPEN_SPAN_TTL_MS;
+    this.maxOpenExecutions = config.maxOpenExecutions ?? DEFAULT_MAX_OPEN_EXECUTIONS;
+    
+    const batchSize = this.config.bufferSize || 50;
+    this.maxCachedSpans = Math.max(batchSize, config.maxCachedSpans ?? batchSize * 2);
+  }
+  
+  protected serializeEvents(events: TelemetryEvent[]): string | null {
+    this.evictOpen(Date.now());
+    
+    const spans: OtlpSpan[] = [];
+    
+    for (const event of events) {
+      const span = this.spanOf(event);
+      if (span) spans.push(span);
+    }
+    
+    if (spans.length === 0) return null;
+    
+    return JSON.stringify({
+      resourceSpans: [
+        {
+          resource: { attributes: this.resourceAttributes },
+          scopeSpans: [
+            {
+              scope: { name: SCOPE_NAME },
+              spans,
+            },
+          ],
+        },
+      ],
+    });
+  }
+  
+  /**
+   * Span of an event, built once per event ID
+   */
+  private spanOf(event: TelemetryEvent): OtlpSpan | undefined {
+    const cached = this.built.get(event.event_id);
+    if (cached !== undefined) return cached ?? undefined;
+    
+    const span = this.toSpan(event);
+    
+    this.built.set(event.event_id, span ?? null);
+    // One entry per event; a retry only needs the batch built last
+    if (this.built.size > this.maxCachedSpans) {
+      this.built.delete(this.built.keys().next().value!);
+    }
+    
+    return span;
+  }
+  
+  /**
+   * Open entry of an execution, moved to the most recently active end
+   */
+  private touch(executionId: string): OpenExecution {
+    const entry = this.open.get(executionId) || { nodes: new Map(), touchedAt: 0 };
+    entry.touchedAt = Date.now();
+    
+    this.open.delete(executionId);
+    this.open.set(executionId, entry);
+    return entry;
+  }
+  
+  /**
+   * Drop executions whose end events never arrived (crashed workers, lost
+   * events), by age and then by count
+   */
+  private evictOpen(now: number): void {
+    for (const [executionId, entry] of this.open) {
+      if (now - entry.touchedAt < this.openSpanTtlMs && this.open.size <= this.maxOpenExecutions) break;
+      this.open.delete(executionId);
+    }
+  }
+  
+  /**
+   * Convert an event into a span. Start events are held until their end
+   * event arrives, so they produce no span on their own.
+   */
+  private toSpan(event: TelemetryEvent): OtlpSpan | undefined {
+    switch (event.event_type) {
+      case EventTypes.WORKFLOW_STARTED:
+        this.touch(event.execution_id).workflow = event;
+        return undefined;
+      
+      case EventTypes.WORKFLOW_COMPLETED:
+      case EventTypes.WORKFLOW_FAILED:
+      case EventTypes.WORKFLOW_ABANDONED: {
+        const start = this.open.get(event.execution_id)?.workflow;
+        this.open.delete(event.execution_id);
+        
+        return this.buildSpan(event, start, {
+          spanId: event.span_id ?? deriveWorkflowSpanId(event.execution_id),
+          parentSpanId: event.parent_span_id,
+          name: event.workflow_name || `workflow ${event.workflow_id}`,
+        });
+      }
+      
+      case EventTypes.NODE_STARTED: {
+        const { nodes } = this.touch(event.execution_id);
+        const key = this.nodeKey(event);
+        const pending = nodes.get(key) || new Map<string, TelemetryEvent>();
+        pending.set(event.event_id, event);
+        nodes.set(key, pending);
+        return undefined;
+      }
+      
+      case EventTypes.NODE_COMPLETED:
+      case EventTypes.NODE_FAILED: {
+        const nodes = this.open.has(event.execution_id) ? this.touch(event.execution_id).nodes : undefined;
+        const key = this.nodeKey(event);
+        const pending = nodes?.get(key);
+        const start = pending?.values().next().value;
+        if (start) pending!.delete(start.event_id);
+        if (pending?.size === 0) {
+          nodes!.delete(key);
+        }
+        
+        return this.buildSpan(event, start, {
+          spanId: start?.span_id ?? event.span_id ?? deriveSpanId(`node:${(start ?? event).event_id}`),
+          parentSpanId: event.parent_span_id ?? deriveWorkflowSpanId(event.execution_id),
+          name: event.node_context?.node_name || event.event_type,
+        });
+      }
+      
+      default:
+        // Evaluations, LLM and custom events become zero-length spans under
+        // the span they were emitted in (the workflow span by default)
+        return this.buildSpan(event, undefined, {
+          spanId: deriveSpanId(`event:${event.event_id}`),
+          parentSpanId: event.span_id ?? deriveWorkflowSpanId(event.execution_id),
+          name: event.event_type,
+        });
+    }
+  }
+  
+  private buildSpan(
+    end: TelemetryEvent,
+    start: TelemetryEvent | undefined,
+    identity: { spanId: string; parentSpanId?: string; name: string }
+  ): OtlpSpan {
+    const endMs = Date.parse(end.timestamp);
+    const startMs = start
+      ? Date.parse(start.timestamp)
+      : endMs - (end.duration_ms ?? 0);
+    
+    const attributes: OtlpKeyValue[] = [];
+    pushAttributes(attributes, 'n8n.', {
+      'event_type': end.event_type,
+      'execution.id': end.execution_id,
+      'run.id': end.run_id,
+      'workflow.id': end.workflow_id,
+      'workflow.name': end.workflow_name,
+      'session.id': end.session_id,
+      'parent.execution.id': end.parent_execution_id,
+      'parent.workflow.id': end.parent_workflow_id,
+      'parent.node.name': end.parent_node_name,
+      'process.role': end.process_role,
+      'worker.id': end.worker_id,
+      'sample.rate': end.sample_rate,
+      'redactions': end.redactions,
+      'node.id': end.node_context?.node_id,
+      'node.name': end.node_context?.node_name,
+      'node.type': end.node_context?.node_type,
+    });
+    pushAttributes(attributes, 'n8n.payload.', {
+      ...start?.payload,
+      ...end.payload,
+    });
+    pushAttributes(attributes, 'n8n.metadata.', end.metadata);
+    
+    const span: OtlpSpan = {
+      traceId: end.trace_id ?? deriveTraceId(end.execution_id),
+      spanId: identity.spanId,
+      name: identity.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(startMs),
+      endTimeUnixNano: toUnixNano(endMs),
+      attributes,
+      status: { code: STATUS_CODE_UNSET },
+    };
+    
+    if (identity.parentSpanId) {
+      span.parentSpanId = identity.parentSpanId;
+    }
+    
+    if (end.status === 'completed') {
+      span.status = { code: STATUS_CODE_OK };
+    } else if (end.status === 'failed') {
+      const payload = (end.payload || {}) as Record<string, unknown>;
+      const message = typeof payload.error_message === 'string' ? payload.error_message : undefined;
+      
+      span.status = { code: STATUS_CODE_ERROR, message };
+      
+      const exceptionAttributes: OtlpKeyValue[] = [];
+      pushAttributes(exceptionAttributes, 'exception.', {
+        message,
+        type: payload.error_type,
+        stacktrace: payload.stack_trace,
+      });
+      span.events = [
+        { name: 'exception', timeUnixNano: toUnixNano(endMs), attributes: exceptionAttributes },
+      ];
+    } else if (end.status === 'abandoned') {
+      span.status = { code: STATUS_CODE_ERROR, message: 'Execution abandoned' };
+    }
+    
+    return span;
+  }
+  
+  /**
+   * Node runs are paired by node name and run index; runs without an index
+   * pair in start order
+   */
+  private nodeKey(event: TelemetryEvent): string {
+    return `node:${event.node_context?.node_name ?? ''}:${event.node_context?.run_index ?? ''}`;
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Durable Outbox
+ *
+ * Append-only on-disk spool for events awaiting delivery. Events are
+ * appended to numbered JSONL segments and a separate cursor file records
+ * how far delivery has been acknowledged, so pending events survive
+ * process restarts and are replayed on startup.
+ *
+ * The spool is capped at `maxBytes`: past it, the oldest segments are
+ * dropped and counted. Batches the endpoint rejects for good go to a
+ * dead-letter file instead of blocking the events behind them.
+ *
+ * The outbox assumes a single writing process per directory: its segment
+ * sizes and ack cursor are kept in memory, so processes sharing a directory
+ * would overwrite each other's segments and deliver each other's events.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TelemetryEvent } from '../events/types';
+
+// ============ Outbox Configuration ============
+
+export interface OutboxConfig {
+  /**
+   * Directory holding the spool segments and the ack cursor
+   */
+  dir: string;
+  
+  /**
+   * Start a new segment once the current one reaches this size in bytes
+   */
+  segmentMaxBytes?: number;
+  
+  /**
+   * Drop the oldest undelivered segments once the spool grows past this
+   * size in bytes (default: 256 MiB)
+   */
+  maxBytes?: number;
+  
+  /**
+   * Initial delay before retrying delivery after a failure
+   */
+  minBackoffMs?: number;
+  
+  /**
+   * Upper bound for the exponential retry delay
+   */
+  maxBackoffMs?: number;
+}
+
+// ============ Cursor ============
+
+export interface OutboxCursor {
+  segment: number;
+  offset: number;
+}
+
+export interface OutboxBatch {
+  events: TelemetryEvent[];
+  next: OutboxCursor;
+}
+
+export interface OutboxStats {
+  /**
+   * Size of the segments still on disk
+   */
+  bytes: number;
+  /**
+   * Undelivered events dropped to keep the spool under `maxBytes`
+   */
+  dropped: number;
+  /**
+   * Events moved to the dead-letter file
+   */
+  deadLettered: number;
+}
+
+const SEGMENT_PATTERN = /^segment-(\d+)\.jsonl$/;
+const ACK_FILE = 'ack.json';
+export const DEAD_LETTER_FILE = 'dead-letter.jsonl';
+const DEFAULT_SEGMENT_MAX_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+function isBefore(a: OutboxCursor, b: OutboxCursor): boolean {
+  return a.segment < b.segment || (a.segment === b.segment && a.offset < b.offset);
+}
+
+// ============ Outbox Implementation ============
+
+export class Outbox {
+  private dir: string;
+  private segmentMaxBytes: number;
+  private maxBytes: number;
+  private writeSegment: number;
+  private writeSize: number;
+  private cursor: OutboxCursor;
+  
+  // Size of every segment on disk
+  private sizes: Map<number, number> = new Map();
+  private dropped = 0;
+  private deadLettered = 0;
+  
+  constructor(config: OutboxConfig) {
+    this.dir = path.resolve(config.dir);
+    this.segmentMaxBytes = config.segmentMaxBytes ?? DEFAULT_SEGMENT_MAX_BYTES;
+    this.maxBytes = Math.max(config.maxBytes ?? DEFAULT_MAX_BYTES, this.segmentMaxBytes);
+    
+    fs.mkdirSync(this.dir, { recursive: true });
+    
+    const segments = this.listSegments();
+    for (const segment of segments) {
+      this.sizes.set(segment, this.segmentSize(segment));
+    }
+    this.writeSegment = segments.length > 0 ? segments[segments.length - 1] : 1;
+    this.writeSize = this.sizes.get(this.writeSegment) ?? 0;
+    this.cursor = this.loadCursor(segments);
+  }
+  
+  /**
+   * Durably append events to the spool
+   */
+  async append(events: TelemetryEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    
+    if (this.writeSize >= this.segmentMaxBytes) {
+      this.writeSegment++;
+      this.writeSize = 0;
+    }
+    
+    const lines = events.map(e => JSON.stringify(e)).join('\n') + '\n';
+    await fs.promises.appendFile(this.segmentPath(this.writeSegment), lines, 'utf-8');
+    this.writeSize += Buffer.byteLength(lines);
+    this.sizes.set(this.writeSegment, this.writeSize);
+    
+    await this.enforceMaxBytes();
+  }
+  
+  /**
+   * Keep rejected events out of the spool, in `dead-letter.jsonl` for
+   * inspection or a manual replay
+   */
+  async deadLetter(events: TelemetryEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    
+    const lines = events.map(e => JSON.stringify(e)).join('\n') + '\n';
+    await fs.promises.appendFile(path.join(this.dir, DEAD_LETTER_FILE), lines, 'utf-8');
+    this.deadLettered += events.length;
+  }
+  
+  getStats(): OutboxStats {
+    let bytes = 0;
+    for (const size of this.sizes.values()) bytes += size;
+    
+    return { bytes, dropped: this.dropped, deadLettered: this.deadLettered };
+  }
+  
+  /**
+   * Whether any appended events have not been acknowledged yet
+   */
+  hasPending(): boolean {
+    return this.cursor.segment < this.writeSegment || this.cursor.offset < this.writeSize;
+  }
+  
+  /**
+   * Read up to `limit` unacknowledged events, starting at the ack cursor.
+   * Returns undefined when nothing is pending.
+   */
+  async read(limit: number): Promise<OutboxBatch | undefined> {
+    let { segment, offset } = this.cursor;
+    
+    while (segment <= this.writeSegment) {
+      const { lines, consumed } = await this.readLines(segment, offset, limit);
+      const events: TelemetryEvent[] = [];
+      
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        
+        try {
+          events.push(JSON.parse(line) as TelemetryEvent);
+        } catch {
+          // Skip lines torn by a crash mid-append
+        }
+      }
+      
+      if (events.length > 0) {
+        return { events, next: { segment, offset: offset + consumed } };
+      }
+      
+      offset += consumed;
+      
+      if (segment === this.writeSegment) {
+        break;
+      }
+      
+      // Sealed segment fully consumed; move on to the next one
+      segment++;
+      offset = 0;
+    }
+    
+    if (segment !== this.cursor.segment || offset !== this.cursor.offset) {
+      return { events: [], next: { segment, offset } };
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Acknowledge delivery up to a cursor returned by `read`. A cursor behind
+   * the current one (its segment was dropped meanwhile) is ignored.
+   */
+  async ack(next: OutboxCursor): Promise<void> {
+    if (isBefore(next, this.cursor)) return;
+    
+    const ackPath = path.join(this.dir, ACK_FILE);
+    const tmpPath = `${ackPath}.tmp`;
+    
+    await fs.promises.writeFile(tmpPath, JSON.stringify(next), 'utf-8');
+    await fs.promises.rename(tmpPath, ackPath);
+    
+    const previous = this.cursor.segment;
+    this.cursor = next;
+    
+    // Segments behind the cursor are fully delivered
+    for (let segment = previous; segment < next.segment; segment++) {
+      await fs.promises.rm(this.segmentPath(segment), { force: true });
+      this.sizes.delete(segment);
+    }
+  }
+  
+  /**
+   * Drop the oldest sealed segments while the spool is over `maxBytes`,
+   * counting their undelivered events
+   */
+  private async enforceMaxBytes(): Promise<void> {
+    let bytes = this.getStats().bytes;
+    
+    while (bytes > this.maxBytes && this.cursor.segment < this.writeSegment) {
+      const segment = this.cursor.segment;
+      const dropped = await this.countLines(segment, this.cursor.offset);
+      
+      bytes -= this.sizes.get(segment) ?? 0;
+      await this.ack({ segment: segment + 1, offset: 0 });
+      
+      this.dropped += dropped;
+      console.error(`[Outbox] Spool over ${this.maxBytes} bytes, dropped ${dropped} undelivered event(s)`);
+    }
+  }
+  
+  private loadCursor(segments: number[]): OutboxCursor {
+    const oldest = segments.length > 0 ? segments[0] : this.writeSegment;
+    
+    try {
+      const raw = fs.readFileSync(path.join(this.dir, ACK_FILE), 'utf-8');
+      const cursor = JSON.parse(raw) as OutboxCursor;
+      
+      if (cursor.segment >= oldest) {
+        return cursor;
+      }
+    } catch {
+      // No cursor yet, or unreadable: replay everything still on disk
+    }
+    
+    return { segment: oldest, offset: 0 };
+  }
+  
+  /**
+   * Up to `limit` complete lines from an offset, read in chunks so a batch
+   * costs its own size rather than the whole segment's
+   */
+  private async readLines(
+    segment: number,
+    offset: number,
+    limit: number
+  ): Promise<{ lines: string[]; consumed: number }> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(this.segmentPath(segment), 'r');
+    } catch {
+      return { lines: [], consumed: 0 };
+    }
+    
+    const lines: string[] = [];
+    const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+    let pending = Buffer.alloc(0);
+    let position = offset;
+    let consumed = 0;
+    
+    try {
+      while (lines.length < limit) {
+        const { bytesRead } = await handle.read(chunk, 0, chunk.length, position);
+        if (bytesRead === 0) break;
+        position += bytesRead;
+        pending = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+        
+        let start = 0;
+        let newline: number;
+        while (lines.length < limit && (newline = pending.indexOf(0x0a, start)) !== -1) {
+          lines.push(pending.subarray(start, newline).toString('utf-8'));
+          start = newline + 1;
+        }
+        
+        consumed += start;
+        pending = pending.subarray(start);
+      }
+    } finally {
+      await handle.close();
+    }
+    
+    return { lines, consumed };
+  }
+  
+  private async countLines(segment: number, offset: number): Promise<number> {
+    try {
+      const content = await fs.promises.readFile(this.segmentPath(segment));
+      let count = 0;
+      for (let index = content.indexOf(0x0a, offset); index !== -1; index = content.indexOf(0x0a, index + 1)) {
+        count++;
+      }
+      return count;
+    } catch {
+      return 0;
+    }
+  }
+  
+  private listSegments(): number[] {
+    return fs.readdirSync(this.dir)
+      .map(name => SEGMENT_PATTERN.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+  }
+  
+  private segmentSize(segment: number): number {
+    try {
+      return fs.statSync(this.segmentPath(segment)).size;
+    } catch {
+      return 0;
+    }
+  }
+  
+  private segmentPath(segment: number): string {
+    return path.join(this.dir, `segment-${String(segment).padStart(9, '0')}.jsonl`);
+  }
+}
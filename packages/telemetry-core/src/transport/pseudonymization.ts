@@ -0,0 +1,93 @@
+/**
+ * Pseudonymization
+ *
+ * Replaces sensitive values with stable keyed tokens instead of `[REDACTED]`,
+ * so events can still be grouped by customer, email or account without
+ * exposing the raw value:
+ *
+ *   pii:<key id>:<hex of HMAC-SHA256(secret, value)>
+ *
+ * The key id in every token makes rotation safe: new values use the first
+ * key, and tokens issued under older keys can still be recomputed.
+ */
+
+import { createHmac } from 'crypto';
+
+// ============ Configuration ============
+
+export interface PseudonymizationKey {
+  /**
+   * Short identifier written into every token, e.g. `k2`
+   */
+  id: string;
+  secret: string;
+}
+
+export interface PseudonymizationConfig {
+  /**
+   * The first key pseudonymizes new values; the rest are older keys kept
+   * for looking up tokens issued before a rotation
+   */
+  keys: PseudonymizationKey[];
+  /**
+   * Hex characters of the HMAC kept in tokens (default: 16, max: 64)
+   */
+  length?: number;
+}
+
+export const PSEUDONYM_PREFIX = 'pii';
+
+const DEFAULT_LENGTH = 16;
+const PSEUDONYM_PATTERN = new RegExp(`^${PSEUDONYM_PREFIX}:[^:\\s]+:[0-9a-f]{1,64}$`);
+
+// ============ Tokens ============
+
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+}
+
+export function pseudonymize(value: unknown, key: PseudonymizationKey, length = DEFAULT_LENGTH): string {
+  const digest = createHmac('sha256', key.secret).update(serialize(value)).digest('hex');
+  return `${PSEUDONYM_PREFIX}:${key.id}:${digest.slice(0, length)}`;
+}
+
+/**
+ * Whether a value is already a token, e.g. from a payload sample that was
+ * pseudonymized before the transport redacts the whole event
+ */
+export function isPseudonym(value: unknown): boolean {
+  return typeof value === 'string' && PSEUDONYM_PATTERN.test(value);
+}
+
+/**
+ * Token for a value under the active key, or undefined when no key is set
+ */
+export function pseudonymizeWith(value: unknown, config: PseudonymizationConfig): string | undefined {
+  const [active] = config.keys;
+  return active ? pseudonymize(value, active, config.length) : undefined;
+}
+
+/**
+ * Tokens for a value under every configured key, for finding one
+ * customer's events across a key rotation
+ */
+export function pseudonymTokens(value: unknown, config: PseudonymizationConfig): string[] {
+  return config.keys.map(key => pseudonymize(value, key, config.length));
+}
+
+/**
+ * Read keys from `id:secret` entries, active key first
+ */
+export function parsePseudonymizationKeys(entries: string[]): PseudonymizationKey[] {
+  const keys: PseudonymizationKey[] = [];
+  
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error(`Invalid pseudonymization key "${entry.split(':')[0]}": expected id:secret`);
+    }
+    keys.push({ id: entry.slice(0, separator).trim(), secret: entry.slice(separator + 1).trim() });
+  }
+  
+  return keys;
+}
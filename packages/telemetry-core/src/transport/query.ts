@@ -0,0 +1,192 @@
+/**
+ * Telemetry Query
+ *
+ * Filter and pagination model shared by all transports
+ */
+
+import { TelemetryEvent, EventStatus } from '../events/types';
+
+// ============ Query Types ============
+
+export interface TelemetryQuery {
+  /**
+   * Only events at or after this time (ISO string or Date)
+   */
+  from?: string | Date;
+  
+  /**
+   * Only events before this time (ISO string or Date)
+   */
+  to?: string | Date;
+  
+  /**
+   * Only these event types
+   */
+  event_types?: string[];
+  
+  /**
+   * Only events with this status (or any of these statuses)
+   */
+  status?: EventStatus | EventStatus[];
+  
+  execution_id?: string;
+  workflow_id?: string;
+  session_id?: string;
+  
+  /**
+   * Only node events for this node type
+   */
+  node_type?: string;
+  
+  /**
+   * Metadata fields that must equal the given values
+   */
+  metadata?: Record<string, unknown>;
+  
+  /**
+   * Evaluation score range (inclusive); only matches events with a payload score
+   */
+  score?: { min?: number; max?: number };
+  
+  /**
+   * Maximum number of events per page (default: 100)
+   */
+  limit?: number;
+  
+  /**
+   * Cursor returned as `next_cursor` by the previous page
+   */
+  cursor?: string;
+}
+
+export interface TelemetryQueryResult {
+  events: TelemetryEvent[];
+  
+  /**
+   * Present when more events match; pass it as `cursor` to fetch the next page
+   */
+  next_cursor?: string;
+}
+
+export const DEFAULT_QUERY_LIMIT = 100;
+
+// ============ Matching ============
+
+function toTime(value: string | Date): number {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function matchesQuery(event: TelemetryEvent, query: TelemetryQuery): boolean {
+  if (query.execution_id !== undefined && event.execution_id !== query.execution_id) return false;
+  if (query.workflow_id !== undefined && event.workflow_id !== query.workflow_id) return false;
+  if (query.session_id !== undefined && event.session_id !== query.session_id) return false;
+  
+  if (query.event_types && !query.event_types.includes(event.event_type)) return false;
+  
+  if (query.status !== undefined) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status];
+    if (!statuses.includes(event.status)) return false;
+  }
+  
+  if (query.node_type !== undefined && event.node_context?.node_type !== query.node_type) return false;
+  
+  if (query.from !== undefined || query.to !== undefined) {
+    const time = Date.parse(event.timestamp);
+    if (query.from !== undefined && !(time >= toTime(query.from))) return false;
+    if (query.to !== undefined && !(time < toTime(query.to))) return false;
+  }
+  
+  if (query.metadata) {
+    for (const [key, value] of Object.entries(query.metadata)) {
+      if (!isEqual(event.metadata?.[key], value)) return false;
+    }
+  }
+  
+  if (query.score) {
+    const score = (event.payload as Record<string, unknown> | undefined)?.score;
+    if (typeof score !== 'number') return false;
+    if (query.score.min !== undefined && score < query.score.min) return false;
+    if (query.score.max !== undefined && score > query.score.max) return false;
+  }
+  
+  return true;
+}
+
+// ============ Pagination ============
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Fall through to the error below
+  }
+  
+  throw new Error(`Invalid query cursor: ${cursor}`);
+}
+
+export interface QueryCollector {
+  /**
+   * Offer an event in storage order. Returns false once the page is full.
+   */
+  offer(event: TelemetryEvent): boolean;
+  
+  result(): TelemetryQueryResult;
+}
+
+/**
+ * Collect one page of matching events, skipping the matches before the cursor
+ */
+export function createQueryCollector(query: TelemetryQuery): QueryCollector {
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+  const skip = query.cursor ? decodeCursor(query.cursor) : 0;
+  const events: TelemetryEvent[] = [];
+  let matched = 0;
+  let hasMore = false;
+  
+  return {
+    offer(event) {
+      if (hasMore) return false;
+      if (!matchesQuery(event, query)) return true;
+      
+      if (matched++ < skip) return true;
+      
+      if (events.length < limit) {
+        events.push(event);
+        return true;
+      }
+      
+      hasMore = true;
+      return false;
+    },
+    
+    result() {
+      return hasMore
+        ? { events, next_cursor: encodeCursor(skip + events.length) }
+        : { events };
+    },
+  };
+}
+
+/**
+ * Run a query against events already held in memory
+ */
+export function queryEvents(events: Iterable<TelemetryEvent>, query: TelemetryQuery): TelemetryQueryResult {
+  const collector = createQueryCollector(query);
+  
+  for (const event of events) {
+    if (!collector.offer(event)) break;
+  }
+  
+  return collector.result();
+}
@@ -0,0 +1,183 @@
+/**
+ * Redaction Policy
+ *
+ * Declarative deny/allow rules for redaction, addressed by JSONPath-like
+ * selectors over the event:
+ *
+ *   payload.error_message       one field
+ *   metadata.*.password         any key at one level
+ *   $..email                    a key at any depth
+ *   payload.items[*].ssn        every array element
+ *
+ * Allow rules override deny rules and the key-name matching of redactFields.
+ */
+
+// ============ Policy Types ============
+
+export interface RedactionRule {
+  path: string;
+  /**
+   * Only apply to these event types (all when unset)
+   */
+  eventTypes?: string[];
+}
+
+export interface RedactionPolicy {
+  /**
+   * Values always redacted
+   */
+  deny?: Array<string | RedactionRule>;
+  /**
+   * Values never redacted, by key name, deny rule or detector
+   */
+  allow?: Array<string | RedactionRule>;
+}
+
+/**
+ * Keeps LLM token counts, on LLM events and in evaluation metrics, which the
+ * `token` field name would otherwise redact
+ */
+export const DEFAULT_REDACT_POLICY: RedactionPolicy = {
+  allow: [
+    { path: 'payload.prompt_tokens', eventTypes: ['llm.requested', 'llm.responded'] },
+    { path: 'payload.completion_tokens', eventTypes: ['llm.requested', 'llm.responded'] },
+    { path: 'payload.total_tokens', eventTypes: ['llm.requested', 'llm.responded'] },
+    { path: 'payload.metrics.llm_metrics.total_tokens', eventTypes: ['eval.completed'] },
+  ],
+};
+
+// ============ Selectors ============
+
+type SelectorToken =
+  | { type: 'key'; key: string }
+  | { type: 'any' }
+  | { type: 'deep' };
+
+interface CompiledRule {
+  tokens: SelectorToken[];
+  eventTypes?: string[];
+}
+
+export interface CompiledRedactionPolicy {
+  deny: CompiledRule[];
+  allow: CompiledRule[];
+}
+
+const TOKEN_PATTERN = /\.\.|\.|\[(\*|\d+|'[^']*'|"[^"]*")\]|[^.[\]]+/g;
+
+export function parseSelector(path: string): SelectorToken[] {
+  const tokens: SelectorToken[] = [];
+  const source = path.trim().replace(/^\$/, '');
+  
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    const [text, bracket] = match;
+    
+    if (text === '..') {
+      tokens.push({ type: 'deep' });
+    } else if (text === '.') {
+      continue;
+    } else if (bracket !== undefined) {
+      tokens.push(bracket === '*' ? { type: 'any' } : { type: 'key', key: bracket.replace(/^['"]|['"]$/g, '') });
+    } else {
+      tokens.push(text === '*' ? { type: 'any' } : { type: 'key', key: text });
+    }
+  }
+  
+  return tokens;
+}
+
+function matchTokens(tokens: SelectorToken[], path: string[], t = 0, p = 0): boolean {
+  if (t === tokens.length) return p === path.length;
+  
+  const token = tokens[t];
+  if (token.type === 'deep') {
+    // Zero or more levels
+    for (let skip = p; skip <= path.length; skip++) {
+      if (matchTokens(tokens, path, t + 1, skip)) return true;
+    }
+    return false;
+  }
+  
+  if (p === path.length) return false;
+  if (token.type === 'key' && token.key !== path[p]) return false;
+  
+  return matchTokens(tokens, path, t + 1, p + 1);
+}
+
+// ============ Compiled Policies ============
+
+const compiledPolicies: WeakMap<RedactionPolicy, CompiledRedactionPolicy> = new WeakMap();
+
+function compileRules(rules: Array<string | RedactionRule> = []): CompiledRule[] {
+  return rules.map(rule => typeof rule === 'string'
+    ? { tokens: parseSelector(rule) }
+    : { tokens: parseSelector(rule.path), eventTypes: rule.eventTypes });
+}
+
+export function compileRedactionPolicy(policy: RedactionPolicy): CompiledRedactionPolicy {
+  let compiled = compiledPolicies.get(policy);
+  if (!compiled) {
+    compiled = { deny: compileRules(policy.deny), allow: compileRules(policy.allow) };
+    compiledPolicies.set(policy, compiled);
+  }
+  return compiled;
+}
+
+function matchesAny(rules: CompiledRule[], path: string[], eventType?: string): boolean {
+  return rules.some(rule =>
+    (!rule.eventTypes || (eventType !== undefined && rule.eventTypes.includes(eventType))) &&
+    matchTokens(rule.tokens, path)
+  );
+}
+
+/**
+ * What the policy says about the value at `path` in an event of `eventType`
+ */
+export function evaluateRedactionPolicy(
+  policy: CompiledRedactionPolicy,
+  path: string[],
+  eventType?: string
+): 'allow' | 'deny' | undefined {
+  if (matchesAny(policy.allow, path, eventType)) return 'allow';
+  if (matchesAny(policy.deny, path, eventType)) return 'deny';
+  return undefined;
+}
+
+// ============ Text Form ============
+
+/**
+ * Read redaction settings from short text entries, as typed in environment
+ * variables or node parameters:
+ *
+ *   ssn                            a key name, matched like redactFields
+ *   $..email, payload.body         a deny selector
+ *   !payload.author                an allow selector
+ *   llm.responded:payload.prompt   either, scoped to an event type
+ *
+ * The returned policy extends DEFAULT_REDACT_POLICY.
+ */
+export function parseRedactionEntries(entries: string[]): { fields: string[]; policy: RedactionPolicy } {
+  const fields: string[] = [];
+  const deny: RedactionRule[] = [];
+  const allow: Array<string | RedactionRule> = [...(DEFAULT_REDACT_POLICY.allow || [])];
+  
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) continue;
+    
+    const allowed = entry.startsWith('!');
+    const body = allowed ? entry.slice(1) : entry;
+    const scope = body.match(/^([\w.*-]+):(.+)$/);
+    const path = scope ? scope[2] : body;
+    
+    if (!allowed && !scope && !path.startsWith('$') && !path.includes('.') && !path.includes('[')) {
+      fields.push(path);
+      continue;
+    }
+    
+    const rule: RedactionRule = { path, eventTypes: scope ? [scope[1]] : undefined };
+    (allowed ? allow : deny).push(rule);
+  }
+  
+  return { fields, policy: { deny, allow } };
+}
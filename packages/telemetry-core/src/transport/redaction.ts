@@ -0,0 +1,289 @@
+/**
+ * Redaction
+ *
+ * Removes secrets from event data before it leaves the process: values under
+ * sensitive key names, and sensitive patterns (emails, card numbers, tokens)
+ * found inside any string value, subject to a path-based RedactionPolicy.
+ * Replaced values become `[REDACTED]`, or keyed tokens when pseudonymizing.
+ */
+
+import { RedactionPolicy, CompiledRedactionPolicy, compileRedactionPolicy, evaluateRedactionPolicy } from './redaction-policy';
+import { PseudonymizationConfig, isPseudonym, pseudonymizeWith } from './pseudonymization';
+
+// ============ Sensitive Keys ============
+
+export const DEFAULT_REDACT_FIELDS = [
+  'password',
+  'secret',
+  'token',
+  'api_key',
+  'apiKey',
+  'authorization',
+  'auth',
+  'credentials',
+  'private_key',
+  'privateKey',
+];
+
+const REDACTED = '[REDACTED]';
+const NO_POLICY: CompiledRedactionPolicy = { deny: [], allow: [] };
+
+// ============ Value Detectors ============
+
+export interface RedactionDetector {
+  name: string;
+  /**
+   * Matches the sensitive text; must have the global flag
+   */
+  pattern: RegExp;
+  /**
+   * Rejects false positives among the matches
+   */
+  validate?: (match: string) => boolean;
+  /**
+   * Replacement for a match (default: `[REDACTED:<name>]`, or a pseudonym
+   * when pseudonymizing)
+   */
+  mask?: (match: string) => string;
+}
+
+export interface RegexDetectorOptions {
+  /**
+   * Keep this many trailing letters/digits and mask the rest, keeping separators
+   */
+  keepLast?: number;
+  replacement?: string;
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Mask every letter and digit except the last `count`, e.g. a card number
+ * becomes `**** **** **** 1111`
+ */
+export function maskKeepingLast(count: number): (match: string) => string {
+  return match => {
+    let kept = 0;
+    const chars = match.split('');
+    
+    for (let i = chars.length - 1; i >= 0; i--) {
+      if (!/[a-z0-9]/i.test(chars[i])) continue;
+      if (kept < count) {
+        kept++;
+      } else {
+        chars[i] = '*';
+      }
+    }
+    
+    return chars.join('');
+  };
+}
+
+export function createRegexDetector(
+  name: string,
+  pattern: RegExp | string,
+  options: RegexDetectorOptions = {}
+): RedactionDetector {
+  const regex = typeof pattern === 'string' ? new RegExp(pattern, 'g') : pattern;
+  const replacement = options.replacement;
+  
+  return {
+    name,
+    pattern: regex.global ? regex : new RegExp(regex.source, `${regex.flags}g`),
+    validate: options.validate,
+    mask: options.keepLast !== undefined
+      ? maskKeepingLast(options.keepLast)
+      : replacement !== undefined ? () => replacement : undefined,
+  };
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  
+  return sum % 10 === 0;
+}
+
+export const BEARER_TOKEN_DETECTOR = createRegexDetector('bearer_token', /\bBearer\s+[\w.~+/-]+=*/gi, {
+  replacement: `Bearer ${REDACTED}`,
+});
+
+export const JWT_DETECTOR = createRegexDetector('jwt', /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g);
+
+export const EMAIL_DETECTOR = createRegexDetector('email', /[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g);
+
+// Visa, Mastercard, Amex, Diners, Discover and JCB
+const CARD_PREFIX = /^(?:4|5[1-5]|2(?:22[1-9]|2[3-9]\d|[3-6]\d\d|7[01]\d|720)|3[47]|3(?:0[0-5]|[68])|6(?:011|5|4[4-9])|35(?:2[89]|[3-8]\d))/;
+
+/**
+ * A Luhn-valid number that is grouped with separators or starts with a card
+ * network prefix; bare numbers such as order IDs pass Luhn one time in ten
+ */
+function isCardNumber(value: string): boolean {
+  return passesLuhn(value) && (/[ -]/.test(value) || CARD_PREFIX.test(value));
+}
+
+export const CARD_NUMBER_DETECTOR = createRegexDetector('card_number', /\b\d(?:[ -]?\d){12,18}\b/g, {
+  keepLast: 4,
+  validate: isCardNumber,
+});
+
+/**
+ * Bearer tokens go first, so a JWT inside one counts as a single redaction
+ */
+export const DEFAULT_DETECTORS: RedactionDetector[] = [
+  BEARER_TOKEN_DETECTOR,
+  JWT_DETECTOR,
+  EMAIL_DETECTOR,
+  CARD_NUMBER_DETECTOR,
+];
+
+// ============ Redaction ============
+
+export interface RedactionOptions {
+  /**
+   * Key names (matched case-insensitively by substring) whose values are replaced
+   */
+  fields?: string[];
+  /**
+   * Patterns replaced inside string values
+   */
+  detectors?: RedactionDetector[];
+  /**
+   * Deny and allow rules by path
+   */
+  policy?: RedactionPolicy;
+  /**
+   * Replace values with keyed `pii:` tokens instead of `[REDACTED]`
+   */
+  pseudonymize?: PseudonymizationConfig;
+  /**
+   * Event type, for policy rules scoped to event types
+   */
+  eventType?: string;
+  /**
+   * Path of the value within the event, e.g. ['payload'], for policy selectors
+   */
+  path?: string[];
+}
+
+export interface RedactionResult<T> {
+  value: T;
+  /**
+   * Number of values and matches replaced
+   */
+  redactions: number;
+}
+
+export function redactString(
+  value: string,
+  detectors: RedactionDetector[],
+  pseudonymize?: PseudonymizationConfig
+): RedactionResult<string> {
+  let redactions = 0;
+  let result = value;
+  
+  for (const detector of detectors) {
+    result = result.replace(detector.pattern, match => {
+      if (detector.validate && !detector.validate(match)) return match;
+      
+      redactions++;
+      if (detector.mask) return detector.mask(match);
+      return (pseudonymize && pseudonymizeWith(match, pseudonymize)) ?? `[REDACTED:${detector.name}]`;
+    });
+  }
+  
+  return { value: result, redactions };
+}
+
+interface RedactionWalk {
+  fields: string[];
+  detectors: RedactionDetector[];
+  policy?: CompiledRedactionPolicy;
+  pseudonymize?: PseudonymizationConfig;
+  eventType?: string;
+  redactions: number;
+}
+
+/**
+ * Values already replaced, by an earlier pass over the same data, are kept
+ * and not counted again
+ */
+function replacement(value: unknown, walk: RedactionWalk): unknown {
+  if (value === REDACTED || (walk.pseudonymize && isPseudonym(value))) return value;
+  
+  walk.redactions++;
+  return (walk.pseudonymize && pseudonymizeWith(value, walk.pseudonymize)) ?? REDACTED;
+}
+
+function redactNode(value: unknown, path: string[], walk: RedactionWalk): unknown {
+  const verdict = walk.policy && evaluateRedactionPolicy(walk.policy, path, walk.eventType);
+  if (verdict === 'allow') return value;
+  if (verdict === 'deny') return replacement(value, walk);
+  
+  if (typeof value === 'string') {
+    if (walk.detectors.length === 0) return value;
+    
+    const result = redactString(value, walk.detectors, walk.pseudonymize);
+    walk.redactions += result.redactions;
+    return result.value;
+  }
+  
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redactNode(item, [...path, String(index)], walk));
+  }
+  
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+    
+    for (const [key, nested] of Object.entries(value)) {
+      const nestedPath = [...path, key];
+      const lowerKey = key.toLowerCase();
+      
+      if (walk.fields.some(f => lowerKey.includes(f.toLowerCase()))
+        && evaluateRedactionPolicy(walk.policy ?? NO_POLICY, nestedPath, walk.eventType) !== 'allow') {
+        result[key] = replacement(nested, walk);
+      } else {
+        result[key] = redactNode(nested, nestedPath, walk);
+      }
+    }
+    
+    return result;
+  }
+  
+  return value;
+}
+
+/**
+ * Redact a value of any shape, counting what was replaced
+ */
+export function redactValue<T>(value: T, options: RedactionOptions = {}): RedactionResult<T> {
+  const walk: RedactionWalk = {
+    fields: options.fields ?? DEFAULT_REDACT_FIELDS,
+    detectors: options.detectors ?? [],
+    policy: options.policy && compileRedactionPolicy(options.policy),
+    pseudonymize: options.pseudonymize,
+    eventType: options.eventType,
+    redactions: 0,
+  };
+  const redacted = redactNode(value, options.path ?? [], walk);
+  
+  return { value: redacted as T, redactions: walk.redactions };
+}
+
+export function redactSensitiveData(
+  obj: Record<string, unknown>,
+  fields: string[] = DEFAULT_REDACT_FIELDS,
+  detectors: RedactionDetector[] = [],
+  pseudonymize?: PseudonymizationConfig
+): Record<string, unknown> {
+  return redactValue(obj, { fields, detectors, pseudonymize }).value;
+}
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { createCustomEvent } from '../src/events/factory';
+import { matchesErasureRecord } from '../src/transport/erasure';
+import { FileTransport } from '../src/transport/file';
+
+function tempFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'erasure-')), 'events.jsonl');
+}
+
+function sessionEvent(sessionId: string) {
+  return createCustomEvent({ execution_id: `exec-${sessionId}`, workflow_id: 'wf-1', session_id: sessionId }, 'test.event');
+}
+
+test('erases a session and records a salted digest', async () => {
+  const filePath = tempFile();
+  const transport = new FileTransport({ filePath, buffered: false });
+  
+  try {
+    await transport.sendBatch([sessionEvent('s-1'), sessionEvent('s-2'), sessionEvent('s-1')]);
+    const record = await transport.erase({ session_id: 's-1' });
+    
+    assert.equal(record.events_removed, 2);
+    assert.equal(record.unreadable_lines, 0);
+    assert.ok(record.digest_salt);
+    assert.ok(matchesErasureRecord(record, { session_id: 's-1' }));
+    assert.ok(!matchesErasureRecord(record, { session_id: 's-2' }));
+    
+    const remaining = await transport.readFromFile();
+    assert.deepEqual(remaining.map(event => event.session_id), ['s-2']);
+    assert.ok(!fs.existsSync(`${filePath}.lock`));
+  } finally {
+    await transport.close();
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  }
+});
+
+test('keys the digest when a digest key is configured', async () => {
+  const filePath = tempFile();
+  const transport = new FileTransport({ filePath, buffered: false, erasureDigestKey: 'secret' });
+  
+  try {
+    await transport.sendBatch([sessionEvent('s-1')]);
+    const record = await transport.erase({ session_id: 's-1' });
+    
+    assert.equal(record.digest_salt, undefined);
+    assert.ok(matchesErasureRecord(record, { session_id: 's-1' }, 'secret'));
+    assert.ok(!matchesErasureRecord(record, { session_id: 's-1' }, 'other'));
+  } finally {
+    await transport.close();
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  }
+});
+
+test('counts lines it cannot decrypt', async () => {
+  const filePath = tempFile();
+  const oldKey = { id: 'k1', key: randomBytes(32) };
+  const writer = new FileTransport({ filePath, buffered: false, encryption: { keys: [oldKey] } });
+  await writer.sendBatch([sessionEvent('s-1'), sessionEvent('s-2')]);
+  await writer.close();
+  
+  const reader = new FileTransport({ filePath, buffered: false, encryption: { keys: [{ id: 'k2', key: randomBytes(32) }] } });
+  try {
+    const record = await reader.erase({ session_id: 's-1' });
+    
+    assert.equal(record.events_removed, 0);
+    assert.equal(record.unreadable_lines, 2);
+  } finally {
+    await reader.close();
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  }
+});
+
+test('waits for a lock held by another process', async () => {
+  const filePath = tempFile();
+  const transport = new FileTransport({ filePath, buffered: false });
+  fs.writeFileSync(`${filePath}.lock`, '12345\n');
+  
+  try {
+    const write = transport.sendBatch([sessionEvent('s-1')]);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.ok(!fs.existsSync(filePath) || fs.readFileSync(filePath, 'utf-8') === '');
+    
+    fs.rmSync(`${filePath}.lock`);
+    await write;
+    assert.equal((await transport.readFromFile()).length, 1);
+  } finally {
+    await transport.close();
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,272 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  ExecutionContext,
+  createNodeCompletedEvent,
+  createNodeFailedEvent,
+  createNodeStartedEvent,
+  createWorkflowAbandonedEvent,
+  createWorkflowCompletedEvent,
+  createWorkflowFailedEvent,
+  createWorkflowStartedEvent,
+} from '../src/events/factory';
+import { TelemetryEvent } from '../src/events/types';
+import { WorkflowEvaluator } from '../src/evaluator/evaluator';
+import { DEFAULT_RULES, EvaluationRule } from '../src/evaluator/rules';
+
+const context: ExecutionContext = { execution_id: 'exec-1', workflow_id: 'wf-1', workflow_name: 'Orders' };
+
+function nodeRun(name: string, durationMs: number, options: { runIndex?: number; error?: string; ctx?: ExecutionContext } = {}): TelemetryEvent[] {
+  const ctx = options.ctx ?? context;
+  const nodeContext = { node_name: name, node_type: 'n8n-nodes-base.set', run_index: options.runIndex };
+  
+  return [
+    createNodeStartedEvent(ctx, nodeContext),
+    options.error
+      ? createNodeFailedEvent(ctx, nodeContext, durationMs, { message: options.error })
+      : createNodeCompletedEvent(ctx, nodeContext, durationMs),
+  ];
+}
+
+function completed(nodes: TelemetryEvent[], durationMs = 1000, ctx = context): TelemetryEvent[] {
+  return [createWorkflowStartedEvent(ctx), ...nodes, createWorkflowCompletedEvent(ctx, durationMs, 0)];
+}
+
+// ============ Default Rules ============
+
+test('a clean execution gets the success bonus', () => {
+  const result = new WorkflowEvaluator().evaluate(completed(nodeRun('Set', 100)));
+  
+  assert.equal(result.score, 100);
+  assert.deepEqual(result.labels, ['clean_execution']);
+  assert.equal(result.findings[0].rule_id, 'success_bonus');
+});
+
+test('failed nodes cost a penalty each and no bonus', () => {
+  const result = new WorkflowEvaluator().evaluate(completed([
+    ...nodeRun('HTTP Request', 100, { error: 'Bad gateway' }),
+    ...nodeRun('HTTP Request', 100, { runIndex: 1, error: 'Bad gateway' }),
+  ]));
+  
+  assert.equal(result.score, 70);
+  assert.deepEqual(result.labels, ['node_failures']);
+  assert.deepEqual(result.findings.map(f => [f.rule_id, f.points, f.run_index]), [
+    ['failed_nodes', -15, undefined],
+    ['failed_nodes', -15, 1],
+  ]);
+});
+
+test('a failed workflow is capped before other penalties apply', () => {
+  const result = new WorkflowEvaluator().evaluate([
+    createWorkflowStartedEvent(context),
+    ...nodeRun('HTTP Request', 100, { error: 'Bad gateway' }),
+    createWorkflowFailedEvent(context, 1000, { message: 'Bad gateway', node: 'HTTP Request' }),
+  ]);
+  
+  assert.equal(result.score, 15);
+  assert.deepEqual(result.labels, ['workflow_failed', 'node_failures']);
+  assert.equal(result.findings[0].node_name, 'HTTP Request');
+});
+
+test('an abandoned workflow is capped', () => {
+  const result = new WorkflowEvaluator().evaluate([
+    createWorkflowStartedEvent(context),
+    createNodeStartedEvent(context, { node_name: 'Wait', node_type: 'n8n-nodes-base.wait' }),
+    createWorkflowAbandonedEvent(context, 30000, {
+      lastNode: 'Wait',
+      lastSeenAt: Date.now() - 20000,
+      inFlightNodes: [{ node_name: 'Wait', started_at: new Date().toISOString(), elapsed_ms: 20000 }],
+    }),
+  ]);
+  
+  assert.equal(result.score, 20);
+  assert.deepEqual(result.labels, ['abandoned']);
+  assert.ok(result.reasons.some(reason => reason.includes('Wait still running')));
+});
+
+test('a slow workflow loses points per second over the threshold', () => {
+  const result = new WorkflowEvaluator({ successBonus: 0 }).evaluate(completed(nodeRun('Set', 100), 65000));
+  
+  assert.equal(result.score, 90);
+  assert.ok(result.labels.includes('slow_execution'));
+  assert.equal(result.metrics.total_duration_ms, 65000);
+});
+
+test('slow nodes cost a penalty each and no bonus', () => {
+  const result = new WorkflowEvaluator().evaluate(completed([...nodeRun('Call OpenAI', 12340), ...nodeRun('Set', 100)]));
+  
+  assert.equal(result.score, 95);
+  assert.deepEqual(result.labels, ['slow_nodes']);
+  assert.deepEqual(result.findings.map(f => [f.node_name, f.measured, f.threshold]), [['Call OpenAI', 12340, 10000]]);
+});
+
+test('failed sub-workflows cost a penalty when rolled up', () => {
+  const child: ExecutionContext = {
+    execution_id: 'exec-2',
+    workflow_id: 'wf-2',
+    parent_execution_id: 'exec-1',
+    parent_node_name: 'Execute Workflow',
+  };
+  const events = completed([
+    createWorkflowStartedEvent(child),
+    ...nodeRun('Set', 100, { ctx: child, error: 'Missing field' }),
+    createWorkflowFailedEvent(child, 500, { message: 'Missing field' }),
+  ]);
+  
+  const result = new WorkflowEvaluator({ rollUpChildExecutions: true }).evaluate(events);
+  assert.equal(result.score, 85);
+  assert.deepEqual(result.labels, ['child_failures']);
+  assert.deepEqual(result.metrics.child_executions?.map(c => [c.execution_id, c.status]), [['exec-2', 'failed']]);
+  
+  // Without roll-up the child's events are left out altogether
+  assert.equal(new WorkflowEvaluator().evaluate(events).score, 100);
+});
+
+// ============ Findings ============
+
+test('findings carry measured and threshold values for each penalty', () => {
+  const result = new WorkflowEvaluator().evaluate(completed([
+    ...nodeRun('Call OpenAI', 12340),
+    ...nodeRun('HTTP Request', 100, { error: 'Bad gateway' }),
+  ], 61500));
+  
+  assert.deepEqual(result.findings, [
+    { rule_id: 'failed_nodes', severity: 'error', points: -15, node_name: 'HTTP Request', run_index: undefined, message: 'Bad gateway' },
+    {
+      rule_id: 'slow_workflow',
+      severity: 'warning',
+      points: -3,
+      measured: 61500,
+      threshold: 60000,
+      message: 'Workflow exceeded time threshold: 61.50s > 60s',
+    },
+    {
+      rule_id: 'slow_nodes',
+      severity: 'warning',
+      points: -5,
+      node_name: 'Call OpenAI',
+      run_index: undefined,
+      measured: 12340,
+      threshold: 10000,
+      message: 'Node exceeded time threshold: 12.34s > 10s',
+    },
+  ]);
+  // The points of the findings add up to the score
+  assert.equal(result.score, 100 + result.findings.reduce((sum, f) => sum + f.points, 0));
+});
+
+test('the evaluation event carries findings alongside the reasons', () => {
+  const event = new WorkflowEvaluator().evaluateAndCreateEvent(context, completed(nodeRun('HTTP Request', 100, { error: 'Bad gateway' })));
+  
+  assert.equal(event.event_type, 'eval.completed');
+  assert.equal(event.payload.score, 85);
+  assert.deepEqual(event.payload.reasons, ['1 node(s) failed (-15 points)', '  - HTTP Request: Bad gateway']);
+  assert.deepEqual(event.payload.findings?.map(f => [f.rule_id, f.severity, f.node_name]), [['failed_nodes', 'error', 'HTTP Request']]);
+});
+
+// ============ Metrics ============
+
+test('node_count counts every run and distinct_node_count every node', () => {
+  const result = new WorkflowEvaluator().evaluate(completed([
+    ...nodeRun('Loop', 100),
+    ...nodeRun('Loop', 300, { runIndex: 1 }),
+    ...nodeRun('Set', 200),
+  ]));
+  
+  assert.equal(result.metrics.node_count, 3);
+  assert.equal(result.metrics.distinct_node_count, 2);
+  assert.deepEqual(result.metrics.slowest_node, { name: 'Loop', duration_ms: 300, run_index: 1 });
+  assert.equal(result.metrics.avg_node_duration_ms, 200);
+});
+
+// ============ Rule Registry ============
+
+test('disabled rules are skipped', () => {
+  const evaluator = new WorkflowEvaluator({ disabledRules: ['failed_nodes'] });
+  const result = evaluator.evaluate(completed(nodeRun('HTTP Request', 100, { error: 'Bad gateway' })));
+  
+  assert.ok(!evaluator.getRules().some(rule => rule.id === 'failed_nodes'));
+  assert.equal(result.score, 100);
+  assert.deepEqual(result.labels, []);
+});
+
+test('additional rules run after the built-in rules', () => {
+  const tooManyNodes: EvaluationRule = {
+    id: 'too_many_nodes',
+    evaluate: (_events, ctx) => ctx.nodeStarted.length > 1
+      ? { points: -20, labels: ['too_many_nodes'], reasons: ['More than one node ran'] }
+      : undefined,
+  };
+  const evaluator = new WorkflowEvaluator({ rules: [tooManyNodes], successBonus: 0 });
+  const result = evaluator.evaluate(completed([...nodeRun('A', 100), ...nodeRun('B', 100)]));
+  
+  assert.deepEqual(evaluator.getRules().map(rule => rule.id), [...DEFAULT_RULES.map(rule => rule.id), 'too_many_nodes']);
+  assert.equal(result.score, 80);
+  // A finding is derived from the points and first reason
+  assert.deepEqual(result.findings.find(f => f.rule_id === 'too_many_nodes'), {
+    rule_id: 'too_many_nodes',
+    severity: 'warning',
+    points: -20,
+    message: 'More than one node ran',
+  });
+});
+
+test('rules see the score left by the rules before them', () => {
+  const seen: number[] = [];
+  const probe = (id: string): EvaluationRule => ({
+    id,
+    evaluate: (_events, ctx) => {
+      seen.push(ctx.score);
+      return { points: -10 };
+    },
+  });
+  const evaluator = new WorkflowEvaluator({ rules: [probe('first'), probe('second')], disabledRules: ['success_bonus'] });
+  const result = evaluator.evaluate(completed(nodeRun('HTTP Request', 100, { error: 'Bad gateway' })));
+  
+  assert.deepEqual(seen, [85, 75]);
+  assert.equal(result.score, 65);
+});
+
+test('a rule pack can penalize retried nodes', () => {
+  const retries: EvaluationRule = {
+    id: 'retries',
+    evaluate: (_events, ctx) => {
+      const retried = ctx.nodeStarted.filter(e => (e.node_context?.run_index ?? 0) > 0);
+      if (retried.length === 0) return undefined;
+      
+      return {
+        points: -5 * retried.length,
+        labels: ['retries'],
+        findings: retried.map(e => ({
+          severity: 'warning',
+          points: -5,
+          node_name: e.node_context?.node_name,
+          run_index: e.node_context?.run_index,
+          message: 'Node was retried',
+        })),
+      };
+    },
+  };
+  const evaluator = new WorkflowEvaluator({ rules: [retries], disabledRules: ['success_bonus'] });
+  
+  const retriedResult = evaluator.evaluate(completed([...nodeRun('HTTP Request', 100), ...nodeRun('HTTP Request', 100, { runIndex: 1 })]));
+  assert.equal(retriedResult.score, 95);
+  assert.deepEqual(retriedResult.findings.map(f => [f.rule_id, f.node_name, f.run_index]), [['retries', 'HTTP Request', 1]]);
+  
+  const cleanResult = evaluator.evaluate(completed(nodeRun('HTTP Request', 100)));
+  assert.equal(cleanResult.score, 100);
+  assert.deepEqual(cleanResult.findings, []);
+});
+
+test('registering a rule with a built-in ID replaces it in place', () => {
+  const evaluator = new WorkflowEvaluator();
+  evaluator.registerRule({
+    id: 'failed_nodes',
+    evaluate: (_events, ctx) => ctx.nodeFailed.length > 0 ? { points: -50, labels: ['broken'] } : undefined,
+  });
+  const result = evaluator.evaluate(completed(nodeRun('HTTP Request', 100, { error: 'Bad gateway' })));
+  
+  assert.deepEqual(evaluator.getRules().map(rule => rule.id), DEFAULT_RULES.map(rule => rule.id));
+  assert.equal(result.score, 50);
+  assert.deepEqual(result.labels, ['broken']);
+});
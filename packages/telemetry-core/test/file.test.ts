@@ -0,0 +1,183 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCustomEvent } from '../src/events/factory';
+import { FileTransport } from '../src/transport/file';
+
+function tempFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'file-')), 'events.jsonl');
+}
+
+function event(executionId: string, name = 'test.event') {
+  return createCustomEvent({ execution_id: executionId, workflow_id: 'wf-1' }, name, { padding: 'x'.repeat(200) });
+}
+
+/**
+ * Rotated segments, oldest first, without the active file and indexes
+ */
+function rotatedSegments(filePath: string): string[] {
+  return fs.readdirSync(path.dirname(filePath))
+    .filter(name => /^events\.\d{8}T\d{9}\.\d{3}\.jsonl(\.gz)?$/.test(name))
+    .sort();
+}
+
+async function withTransport(
+  config: Omit<ConstructorParameters<typeof FileTransport>[0], 'filePath'>,
+  fn: (transport: FileTransport, filePath: string) => Promise<void>
+): Promise<void> {
+  const filePath = tempFile();
+  const transport = new FileTransport({ filePath, buffered: false, ...config });
+  
+  try {
+    await fn(transport, filePath);
+  } finally {
+    await transport.close();
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  }
+}
+
+// ============ Rotation ============
+
+test('rotates by size and reads across every segment in order', async () => {
+  await withTransport({ rotation: { maxBytes: 1000 } }, async (transport, filePath) => {
+    for (let i = 0; i < 10; i++) {
+      await transport.send(event(`exec-${i % 2}`, `event-${i}`));
+    }
+    
+    const segments = rotatedSegments(filePath);
+    assert.ok(segments.length >= 2);
+    for (const segment of [...segments.map(name => path.join(path.dirname(filePath), name)), filePath]) {
+      assert.ok(fs.statSync(segment).size <= 1000);
+    }
+    
+    const events = await transport.readFromFile();
+    assert.deepEqual(events.map(e => (e.payload as { name: string }).name), Array.from({ length: 10 }, (_, i) => `event-${i}`));
+    
+    const execution = await transport.queryByExecution('exec-1');
+    assert.deepEqual(execution.map(e => (e.payload as { name: string }).name), ['event-1', 'event-3', 'event-5', 'event-7', 'event-9']);
+  });
+});
+
+test('gzips rotated segments and still reads and queries them', async () => {
+  await withTransport({ rotation: { maxBytes: 1000, compress: true } }, async (transport, filePath) => {
+    for (let i = 0; i < 10; i++) {
+      await transport.send(event(`exec-${i}`));
+    }
+    
+    const segments = rotatedSegments(filePath);
+    assert.ok(segments.length >= 2);
+    assert.ok(segments.every(name => name.endsWith('.jsonl.gz')));
+    
+    assert.equal((await transport.readFromFile()).length, 10);
+    assert.equal((await transport.queryByExecution('exec-0')).length, 1);
+  });
+});
+
+test('keeps at most maxSegments rotated segments, deleting the oldest', async () => {
+  await withTransport({ rotation: { maxBytes: 1000, maxSegments: 1 } }, async (transport, filePath) => {
+    for (let i = 0; i < 10; i++) {
+      await transport.send(event(`exec-${i}`));
+    }
+    
+    assert.equal(rotatedSegments(filePath).length, 1);
+    
+    const remaining = (await transport.readFromFile()).map(e => e.execution_id);
+    assert.ok(remaining.length < 10);
+    assert.deepEqual(remaining, Array.from({ length: remaining.length }, (_, i) => `exec-${10 - remaining.length + i}`));
+    assert.deepEqual(await transport.queryByExecution('exec-0'), []);
+  });
+});
+
+test('rotates when the day changes', async () => {
+  await withTransport({ rotation: { interval: 'daily' } }, async (transport, filePath) => {
+    fs.writeFileSync(filePath, JSON.stringify(event('exec-old')) + '\n');
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    fs.utimesSync(filePath, yesterday, yesterday);
+    
+    await transport.send(event('exec-new'));
+    await transport.send(event('exec-new'));
+    
+    assert.equal(rotatedSegments(filePath).length, 1);
+    assert.deepEqual((await transport.readFromFile()).map(e => e.execution_id), ['exec-old', 'exec-new', 'exec-new']);
+  });
+});
+
+// ============ Index ============
+
+test('keeps a sidecar index with the offset of every event', async () => {
+  await withTransport({}, async (transport, filePath) => {
+    await transport.sendBatch([event('exec-1'), event('exec-2')]);
+    
+    const entries = fs.readFileSync(`${filePath}.idx`, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    const content = fs.readFileSync(filePath);
+    
+    assert.deepEqual(entries.map(entry => entry.e), ['exec-1', 'exec-2']);
+    for (const entry of entries) {
+      assert.equal(JSON.parse(content.subarray(entry.o, entry.o + entry.l).toString()).execution_id, entry.e);
+    }
+  });
+});
+
+test('rebuilds a missing index on the next query', async () => {
+  await withTransport({}, async (transport, filePath) => {
+    await transport.sendBatch([event('exec-1'), event('exec-2'), event('exec-1')]);
+    fs.rmSync(`${filePath}.idx`);
+    
+    const reopened = new FileTransport({ filePath, buffered: false });
+    try {
+      assert.equal((await reopened.queryByExecution('exec-1')).length, 2);
+      assert.equal((await reopened.queryByWorkflow('wf-1')).length, 3);
+      assert.ok(fs.existsSync(`${filePath}.idx`));
+    } finally {
+      await reopened.close();
+    }
+  });
+});
+
+test('indexes lines appended by another process once', async () => {
+  await withTransport({}, async (transport, filePath) => {
+    const other = new FileTransport({ filePath, buffered: false });
+    
+    try {
+      await transport.send(event('exec-1'));
+      await other.send(event('exec-1'));
+      await transport.send(event('exec-1'));
+      
+      assert.equal((await transport.queryByExecution('exec-1')).length, 3);
+      assert.equal((await other.queryByExecution('exec-1')).length, 3);
+      assert.equal(fs.readFileSync(`${filePath}.idx`, 'utf-8').trim().split('\n').length, 3);
+    } finally {
+      await other.close();
+    }
+  });
+});
+
+test('indexes lines written without an index and skips a torn last line', async () => {
+  await withTransport({}, async (transport, filePath) => {
+    // An older version, or a crash between the data and index writes
+    fs.writeFileSync(filePath, `${JSON.stringify(event('exec-1'))}\n{"event_id":"torn`);
+    
+    await transport.send(event('exec-1'));
+    
+    assert.equal((await transport.queryByExecution('exec-1')).length, 2);
+    assert.equal((await transport.readFromFile()).length, 2);
+  });
+});
+
+test('rebuilds the index when the file was truncated underneath it', async () => {
+  await withTransport({}, async (transport, filePath) => {
+    await transport.sendBatch([event('exec-1'), event('exec-1')]);
+    
+    const reopened = new FileTransport({ filePath, buffered: false });
+    try {
+      fs.writeFileSync(filePath, JSON.stringify(event('exec-2')) + '\n');
+      
+      assert.deepEqual(await reopened.queryByExecution('exec-1'), []);
+      assert.equal((await reopened.queryByExecution('exec-2')).length, 1);
+    } finally {
+      await reopened.close();
+    }
+  });
+});
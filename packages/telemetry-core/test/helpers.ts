@@ -0,0 +1,16 @@
+/**
+ * Test Helpers
+ *
+ * Shared by the test files; holds no tests of its own
+ */
+
+/**
+ * Poll until a condition holds, for work done in the background
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
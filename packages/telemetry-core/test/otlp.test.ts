@@ -0,0 +1,177 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import {
+  createNodeCompletedEvent,
+  createNodeStartedEvent,
+  createWorkflowCompletedEvent,
+  createWorkflowStartedEvent,
+  ExecutionContext,
+} from '../src/events/factory';
+import { OtlpTransport } from '../src/transport/otlp';
+import { waitFor } from './helpers';
+
+/**
+ * The parts of an OTLP/HTTP JSON export request the tests read
+ */
+interface ExportedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  status: { code: number; message?: string };
+}
+
+interface ExportRequest {
+  resourceSpans: Array<{ scopeSpans: Array<{ spans: ExportedSpan[] }> }>;
+}
+
+interface MockCollector {
+  endpoint: string;
+  bodies: ExportRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * OTLP/HTTP endpoint that fails the first `failures` requests with a 503
+ */
+async function startCollector(failures = 0): Promise<MockCollector> {
+  const bodies: ExportRequest[] = [];
+  let requests = 0;
+  
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      bodies.push(JSON.parse(body));
+      res.statusCode = requests++ < failures ? 503 : 200;
+      res.end('{}');
+    });
+  });
+  
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  
+  return {
+    endpoint: `http://127.0.0.1:${port}/v1/traces`,
+    bodies,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function spansOf(body: ExportRequest): ExportedSpan[] {
+  return body.resourceSpans[0].scopeSpans[0].spans;
+}
+
+function executionEvents(executionId: string) {
+  const context: ExecutionContext = { execution_id: executionId, workflow_id: 'wf-1', workflow_name: 'Orders' };
+  const node = { node_name: 'HTTP Request', node_type: 'n8n-nodes-base.httpRequest' };
+  
+  return [
+    createWorkflowStartedEvent(context),
+    createNodeStartedEvent(context, node, 1),
+    createNodeCompletedEvent(context, node, 40, 2),
+    createWorkflowCompletedEvent(context, 50, 1),
+  ];
+}
+
+test('exports paired workflow and node spans', async () => {
+  const collector = await startCollector();
+  const transport = new OtlpTransport({ endpoint: collector.endpoint, buffered: false, serviceName: 'orders' });
+  
+  try {
+    await transport.sendBatch(executionEvents('exec-1'));
+    
+    assert.equal(collector.bodies.length, 1);
+    const spans = spansOf(collector.bodies[0]);
+    assert.deepEqual(spans.map(span => span.name), ['HTTP Request', 'Orders']);
+    
+    const [node, workflow] = spans;
+    assert.equal(node.parentSpanId, workflow.spanId);
+    assert.equal(node.traceId, workflow.traceId);
+    assert.equal(node.status.code, 1);
+  } finally {
+    await transport.close();
+    await collector.close();
+  }
+});
+
+test('an outbox retry sends the same spans again', async () => {
+  const collector = await startCollector(1);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'otlp-outbox-'));
+  const transport = new OtlpTransport({
+    endpoint: collector.endpoint,
+    outbox: { dir, minBackoffMs: 10 },
+  });
+  
+  try {
+    await transport.sendBatch(executionEvents('exec-2'));
+    await waitFor(() => collector.bodies.length >= 2);
+    
+    const [failed, retried] = collector.bodies.map(spansOf);
+    assert.equal(retried.length, 2);
+    assert.deepEqual(retried, failed);
+    assert.ok(retried[0].startTimeUnixNano <= retried[0].endTimeUnixNano);
+  } finally {
+    await transport.close();
+    await collector.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a retried batch keeps the start times of spans whose start was already sent', async () => {
+  const collector = await startCollector(1);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'otlp-outbox-'));
+  // Far fewer open executions than spans in the retried batch
+  const transport = new OtlpTransport({
+    endpoint: collector.endpoint,
+    outbox: { dir, minBackoffMs: 10 },
+    maxOpenExecutions: 2,
+  });
+  
+  try {
+    const [first, second] = [executionEvents('exec-5'), executionEvents('exec-6')];
+    
+    // Start events make no request and are acknowledged on their own
+    await transport.sendBatch([first[0], first[1], second[0], second[1]]);
+    await transport.flush();
+    
+    await transport.sendBatch([first[2], first[3], second[2], second[3]]);
+    await waitFor(() => collector.bodies.length >= 2);
+    
+    const [failed, retried] = collector.bodies.map(spansOf);
+    assert.equal(retried.length, 4);
+    assert.deepEqual(retried, failed);
+  } finally {
+    await transport.close();
+    await collector.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('drops start events of executions that never end', async () => {
+  const collector = await startCollector();
+  const transport = new OtlpTransport({ endpoint: collector.endpoint, buffered: false, maxOpenExecutions: 1 });
+  
+  try {
+    const [firstStart, , , firstEnd] = executionEvents('exec-3');
+    const [secondStart] = executionEvents('exec-4');
+    await transport.sendBatch([firstStart]);
+    await transport.sendBatch([secondStart]);
+    await transport.sendBatch([firstEnd]);
+    
+    // The first execution was evicted, so its span starts at end minus duration
+    const [span] = spansOf(collector.bodies[0]);
+    const durationNs = BigInt(span.endTimeUnixNano) - BigInt(span.startTimeUnixNano);
+    assert.equal(durationNs, BigInt(50 * 1000000));
+  } finally {
+    await transport.close();
+    await collector.close();
+  }
+});
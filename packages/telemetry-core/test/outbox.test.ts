@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { createCustomEvent } from '../src/events/factory';
+import { HttpTransport } from '../src/transport/http';
+import { DEAD_LETTER_FILE, Outbox } from '../src/transport/outbox';
+import { waitFor } from './helpers';
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+}
+
+function events(count: number, executionId = 'exec-1') {
+  return Array.from({ length: count }, (_, index) =>
+    createCustomEvent({ execution_id: executionId, workflow_id: 'wf-1' }, 'test.event', { index }));
+}
+
+test('reads batches in order across segments', async () => {
+  const dir = tempDir();
+  const outbox = new Outbox({ dir, segmentMaxBytes: 600 });
+  
+  try {
+    const appended = events(10);
+    for (const event of appended) await outbox.append([event]);
+    
+    const read: string[] = [];
+    while (outbox.hasPending()) {
+      const batch = await outbox.read(3);
+      if (!batch) break;
+      read.push(...batch.events.map(event => event.event_id));
+      await outbox.ack(batch.next);
+    }
+    
+    assert.deepEqual(read, appended.map(event => event.event_id));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('drops the oldest segments past maxBytes', async () => {
+  const dir = tempDir();
+  const outbox = new Outbox({ dir, segmentMaxBytes: 1000, maxBytes: 2000 });
+  
+  try {
+    for (const event of events(30)) await outbox.append([event]);
+    
+    const stats = outbox.getStats();
+    assert.ok(stats.dropped > 0);
+    assert.ok(stats.bytes <= 2000 + 1000);
+    
+    let remaining = 0;
+    while (outbox.hasPending()) {
+      const batch = await outbox.read(50);
+      if (!batch) break;
+      remaining += batch.events.length;
+      await outbox.ack(batch.next);
+    }
+    assert.equal(remaining + stats.dropped, 30);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('dead-letters batches the endpoint rejects and delivers the rest', async () => {
+  const received: unknown[][] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const batch = JSON.parse(body).events as Array<{ payload: { data: { index: number } } }>;
+      const rejected = batch.some(event => event.payload.data.index === 0);
+      if (!rejected) received.push(batch);
+      res.statusCode = rejected ? 400 : 200;
+      res.end(rejected ? '{"error":"invalid"}' : '{}');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  
+  const dir = tempDir();
+  const transport = new HttpTransport({
+    endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`,
+    bufferSize: 1,
+    outbox: { dir, minBackoffMs: 10 },
+  });
+  
+  try {
+    await transport.sendBatch(events(3));
+    await transport.flush();
+    await waitFor(() => received.length === 2);
+    
+    const deadLetters = fs.readFileSync(path.join(dir, DEAD_LETTER_FILE), 'utf-8').trim().split('\n');
+    assert.equal(deadLetters.length, 1);
+    assert.equal(JSON.parse(deadLetters[0]).payload.data.index, 0);
+    assert.equal(transport.getOutboxStats()?.deadLettered, 1);
+  } finally {
+    await transport.close();
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
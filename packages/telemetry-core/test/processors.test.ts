@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createCustomEvent } from '../src/events/factory';
+import { TelemetryEvent } from '../src/events/types';
+import { ProcessorPipeline, dropEvents, enrichMetadata } from '../src/processors';
+
+const context = { execution_id: 'exec-1', workflow_id: 'wf-1' };
+
+function event(name: string, metadata?: Record<string, unknown>): TelemetryEvent {
+  return { ...createCustomEvent(context, name), metadata };
+}
+
+function names(events: TelemetryEvent[]): string[] {
+  return events.map(e => (e.payload as { name: string }).name);
+}
+
+/**
+ * Runs a test with console.error silenced, returning what was logged
+ */
+async function quietly(fn: () => Promise<void>): Promise<unknown[][]> {
+  const logged: unknown[][] = [];
+  const original = console.error;
+  console.error = (...args: unknown[]) => { logged.push(args); };
+  
+  try {
+    await fn();
+  } finally {
+    console.error = original;
+  }
+  
+  return logged;
+}
+
+// ============ Pipeline ============
+
+test('runs processors in order, passing on returned, mutated or dropped events', async () => {
+  const pipeline = new ProcessorPipeline([
+    e => ({ ...e, metadata: { step: 'first' } }),
+    e => { e.metadata = { ...e.metadata, mutated: true }; },
+  ]);
+  pipeline.use(dropEvents(e => (e.payload as { name: string }).name === 'noise'));
+  
+  const processed = await pipeline.processBatch([event('kept'), event('noise'), event('also-kept')]);
+  
+  assert.deepEqual(names(processed), ['kept', 'also-kept']);
+  assert.deepEqual(processed[0].metadata, { step: 'first', mutated: true });
+  assert.deepEqual(pipeline.getStats(), { processed: 3, dropped: 1, errors: 0, errorsByProcessor: {} });
+});
+
+test('a failing processor is skipped for that event and counted by name', async () => {
+  const failing = (e: TelemetryEvent) => {
+    if ((e.payload as { name: string }).name === 'bad') throw new Error('boom');
+    return { ...e, metadata: { seen: true } };
+  };
+  const pipeline = new ProcessorPipeline([
+    failing,
+    { name: 'rejecting', process: async () => { throw new Error('async boom'); } },
+    enrichMetadata({ host: 'worker-1' }),
+  ]);
+  let processed: TelemetryEvent[] = [];
+  
+  const logged = await quietly(async () => {
+    processed = await pipeline.processBatch([event('good'), event('bad')]);
+  });
+  
+  // Later processors still run and no event is lost
+  assert.deepEqual(processed.map(e => e.metadata), [{ host: 'worker-1', seen: true }, { host: 'worker-1' }]);
+  assert.deepEqual(pipeline.getStats(), {
+    processed: 2,
+    dropped: 0,
+    errors: 3,
+    errorsByProcessor: { failing: 1, rejecting: 2 },
+  });
+  assert.equal(logged.length, 3);
+  assert.ok(logged.some(args => String(args[0]).includes('failing failed')));
+});
+
+test('anonymous processors are named by position and stats can be reset', async () => {
+  const pipeline = new ProcessorPipeline([() => { throw new Error('boom'); }]);
+  
+  await quietly(async () => {
+    await pipeline.process(event('one'));
+  });
+  
+  assert.deepEqual(pipeline.getStats().errorsByProcessor, { 'processor[0]': 1 });
+  
+  // A returned snapshot does not change with the pipeline
+  const stats = pipeline.getStats();
+  pipeline.resetStats();
+  assert.equal(stats.errors, 1);
+  assert.deepEqual(pipeline.getStats(), { processed: 0, dropped: 0, errors: 0, errorsByProcessor: {} });
+});
+
+// ============ Built-in Processors ============
+
+test('enrichMetadata keeps the fields an event already has', async () => {
+  let calls = 0;
+  const pipeline = new ProcessorPipeline([
+    enrichMetadata({ host: 'worker-1', region: 'eu' }),
+    enrichMetadata(() => ({ sequence: ++calls })),
+  ]);
+  
+  const [first, second] = await pipeline.processBatch([event('one', { region: 'us' }), event('two')]);
+  
+  assert.deepEqual(first.metadata, { host: 'worker-1', region: 'us', sequence: 1 });
+  assert.deepEqual(second.metadata, { host: 'worker-1', region: 'eu', sequence: 2 });
+});
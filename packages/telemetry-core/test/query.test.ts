@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCustomEvent, createEvalCompletedEvent, createNodeFailedEvent } from '../src/events/factory';
+import { TelemetryEvent } from '../src/events/types';
+import { FileTransport } from '../src/transport/file';
+import { MultiTransport } from '../src/transport/multi';
+import { TelemetryQuery, encodeCursor, queryEvents } from '../src/transport/query';
+
+const context = { execution_id: 'exec-1', workflow_id: 'wf-1', session_id: 's-1' };
+
+function at(event: TelemetryEvent, timestamp: string): TelemetryEvent {
+  return { ...event, timestamp };
+}
+
+function numbered(count: number, executionId = 'exec-1'): TelemetryEvent[] {
+  return Array.from({ length: count }, (_, i) =>
+    createCustomEvent({ ...context, execution_id: executionId }, `event-${i}`)
+  );
+}
+
+function names(events: TelemetryEvent[]): string[] {
+  return events.map(e => (e.payload as { name: string }).name);
+}
+
+/**
+ * Every page of a query, following next_cursor
+ */
+async function allPages(
+  run: (query: TelemetryQuery) => Promise<{ events: TelemetryEvent[]; next_cursor?: string }>,
+  query: TelemetryQuery
+): Promise<TelemetryEvent[][]> {
+  const pages: TelemetryEvent[][] = [];
+  let cursor: string | undefined;
+  
+  do {
+    const page = await run({ ...query, cursor });
+    pages.push(page.events);
+    cursor = page.next_cursor;
+  } while (cursor);
+  
+  return pages;
+}
+
+function tempFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'query-')), 'events.jsonl');
+}
+
+// ============ Filters ============
+
+test('filters by time range, type, status, session, node type, metadata and score', () => {
+  const failed = createNodeFailedEvent(context, { node_name: 'HTTP Request', node_type: 'n8n-nodes-base.httpRequest' }, 100, { message: 'Bad gateway' });
+  const evaluation = createEvalCompletedEvent(context, 40, [], [], { total_duration_ms: 1, node_count: 1, failed_node_count: 1 });
+  const custom = { ...createCustomEvent(context, 'checkpoint'), metadata: { customer: { id: 'c-42' } } };
+  const events = [
+    at(failed, '2026-01-01T10:00:00.000Z'),
+    at(evaluation, '2026-01-01T11:00:00.000Z'),
+    at(custom, '2026-01-01T12:00:00.000Z'),
+    at({ ...custom, session_id: 's-2' }, '2026-01-01T12:30:00.000Z'),
+  ];
+  const run = (query: TelemetryQuery) => queryEvents(events, query).events;
+  
+  assert.deepEqual(run({ from: '2026-01-01T10:30:00Z', to: new Date('2026-01-01T12:00:00Z') }), [events[1]]);
+  assert.deepEqual(run({ event_types: ['node.failed', 'eval.completed'] }), [events[0], events[1]]);
+  assert.deepEqual(run({ status: 'failed' }), [events[0]]);
+  assert.deepEqual(run({ session_id: 's-2' }), [events[3]]);
+  assert.deepEqual(run({ node_type: 'n8n-nodes-base.httpRequest' }), [events[0]]);
+  assert.deepEqual(run({ metadata: { customer: { id: 'c-42' } }, session_id: 's-1' }), [events[2]]);
+  assert.deepEqual(run({ score: { max: 50 } }), [events[1]]);
+  assert.deepEqual(run({ score: { min: 50 } }), []);
+});
+
+// ============ Pagination ============
+
+test('cursors page through every match exactly once', async () => {
+  const events = numbered(7);
+  const pages = await allPages(async query => queryEvents(events, query), { limit: 3 });
+  
+  assert.deepEqual(pages.map(names), [
+    ['event-0', 'event-1', 'event-2'],
+    ['event-3', 'event-4', 'event-5'],
+    ['event-6'],
+  ]);
+});
+
+test('no cursor is returned when the last page is exactly full', () => {
+  const result = queryEvents(numbered(3), { limit: 3 });
+  
+  assert.equal(result.events.length, 3);
+  assert.equal(result.next_cursor, undefined);
+});
+
+test('invalid cursors are rejected', () => {
+  assert.throws(() => queryEvents(numbered(1), { cursor: 'not-a-cursor' }), /Invalid query cursor/);
+  assert.throws(() => queryEvents(numbered(1), { cursor: encodeCursor(-1) }), /Invalid query cursor/);
+});
+
+test('FileTransport pages through streamed and indexed queries alike', async () => {
+  const filePath = tempFile();
+  const transport = new FileTransport({ filePath, buffered: false });
+  
+  try {
+    await transport.sendBatch([...numbered(5, 'exec-1'), ...numbered(5, 'exec-2')]);
+    
+    // Streamed: no execution or workflow filter
+    const streamed = await allPages(query => transport.query(query), { session_id: 's-1', limit: 4 });
+    assert.deepEqual(streamed.map(page => page.length), [4, 4, 2]);
+    
+    // Indexed: by execution
+    const indexed = await allPages(query => transport.query(query), { execution_id: 'exec-2', limit: 2 });
+    assert.deepEqual(indexed.map(names), [['event-0', 'event-1'], ['event-2', 'event-3'], ['event-4']]);
+    assert.ok(indexed.flat().every(e => e.execution_id === 'exec-2'));
+  } finally {
+    await transport.close();
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  }
+});
+
+// ============ Multi Transport ============
+
+test('MultiTransport pages from the first transport with matches', async () => {
+  const emptyPath = tempFile();
+  const fullPath = tempFile();
+  const empty = new FileTransport({ filePath: emptyPath, buffered: false });
+  const full = new FileTransport({ filePath: fullPath, buffered: false });
+  const multi = new MultiTransport([empty, full]);
+  
+  try {
+    await full.sendBatch(numbered(5));
+    
+    const pages = await allPages(query => multi.query(query), { limit: 2 });
+    assert.deepEqual(pages.map(names), [['event-0', 'event-1'], ['event-2', 'event-3'], ['event-4']]);
+    
+    // Events sent later to the first transport do not change a paged query
+    const first = await multi.query({ limit: 2 });
+    await empty.sendBatch(numbered(5, 'exec-other'));
+    const second = await multi.query({ limit: 2, cursor: first.next_cursor });
+    assert.deepEqual(names(second.events), ['event-2', 'event-3']);
+    assert.ok(second.events.every(e => e.execution_id === 'exec-1'));
+    
+    await assert.rejects(multi.query({ cursor: 'garbage' }), /Invalid query cursor/);
+  } finally {
+    await multi.close();
+    fs.rmSync(path.dirname(emptyPath), { recursive: true, force: true });
+    fs.rmSync(path.dirname(fullPath), { recursive: true, force: true });
+  }
+});
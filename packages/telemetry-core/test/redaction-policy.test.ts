@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createCustomEvent, createLLMRespondedEvent } from '../src/events/factory';
+import { redactEvent } from '../src/transport/base';
+import { DEFAULT_DETECTORS, DEFAULT_REDACT_FIELDS } from '../src/transport/redaction';
+import {
+  DEFAULT_REDACT_POLICY,
+  compileRedactionPolicy,
+  evaluateRedactionPolicy,
+  parseRedactionEntries,
+  parseSelector,
+} from '../src/transport/redaction-policy';
+
+const context = { execution_id: 'exec-1', workflow_id: 'wf-1' };
+
+function verdict(selector: string, path: string[]) {
+  return evaluateRedactionPolicy(compileRedactionPolicy({ deny: [selector] }), path);
+}
+
+// ============ Selectors ============
+
+test('selectors parse into keys, wildcards and deep matches', () => {
+  assert.deepEqual(parseSelector('payload.error_message'), [
+    { type: 'key', key: 'payload' },
+    { type: 'key', key: 'error_message' },
+  ]);
+  assert.deepEqual(parseSelector('$..email'), [{ type: 'deep' }, { type: 'key', key: 'email' }]);
+  assert.deepEqual(parseSelector(`payload.items[*].ssn`), [
+    { type: 'key', key: 'payload' },
+    { type: 'key', key: 'items' },
+    { type: 'any' },
+    { type: 'key', key: 'ssn' },
+  ]);
+  assert.deepEqual(parseSelector(`metadata['user.name'][0]`), [
+    { type: 'key', key: 'metadata' },
+    { type: 'key', key: 'user.name' },
+    { type: 'key', key: '0' },
+  ]);
+});
+
+test('selectors match whole paths', () => {
+  assert.equal(verdict('payload.error_message', ['payload', 'error_message']), 'deny');
+  assert.equal(verdict('payload.error_message', ['payload', 'error_message', 'text']), undefined);
+  
+  // A wildcard is exactly one level; a deep match is zero or more
+  assert.equal(verdict('metadata.*.password', ['metadata', 'db', 'password']), 'deny');
+  assert.equal(verdict('metadata.*.password', ['metadata', 'password']), undefined);
+  assert.equal(verdict('$..email', ['email']), 'deny');
+  assert.equal(verdict('$..email', ['payload', 'users', '3', 'email']), 'deny');
+  assert.equal(verdict('payload.items[*].ssn', ['payload', 'items', '0', 'ssn']), 'deny');
+});
+
+test('allow rules win over deny rules, within their event types', () => {
+  const policy = compileRedactionPolicy({
+    deny: ['payload.*'],
+    allow: [{ path: 'payload.model', eventTypes: ['llm.responded'] }],
+  });
+  
+  assert.equal(evaluateRedactionPolicy(policy, ['payload', 'model'], 'llm.responded'), 'allow');
+  assert.equal(evaluateRedactionPolicy(policy, ['payload', 'model'], 'custom'), 'deny');
+  assert.equal(evaluateRedactionPolicy(policy, ['payload', 'model']), 'deny');
+});
+
+// ============ Text Form ============
+
+test('entries split into field names, deny and allow rules', () => {
+  const { fields, policy } = parseRedactionEntries([
+    'ssn',
+    ' ',
+    '$..email',
+    ' !payload.author ',
+    'llm.responded:payload.prompt',
+    '!custom:metadata.note',
+  ]);
+  
+  assert.deepEqual(fields, ['ssn']);
+  assert.deepEqual(policy.deny, [
+    { path: '$..email', eventTypes: undefined },
+    { path: 'payload.prompt', eventTypes: ['llm.responded'] },
+  ]);
+  assert.deepEqual(policy.allow, [
+    ...DEFAULT_REDACT_POLICY.allow!,
+    { path: 'payload.author', eventTypes: undefined },
+    { path: 'metadata.note', eventTypes: ['custom'] },
+  ]);
+});
+
+// ============ Default Policy ============
+
+test('the default policy keeps LLM token counts and nothing else named token', () => {
+  const config = {
+    redactPayloads: true,
+    redactFields: DEFAULT_REDACT_FIELDS,
+    redactDetectors: DEFAULT_DETECTORS,
+    redactPolicy: DEFAULT_REDACT_POLICY,
+  };
+  const llm = createLLMRespondedEvent(context, { node_name: 'OpenAI', node_type: 'n8n-nodes-base.openAi' }, 100, {
+    completion_tokens: 20,
+    total_tokens: 30,
+  });
+  const custom = { ...createCustomEvent(context, 'usage'), payload: { name: 'usage', total_tokens: 30 } };
+  
+  const redactedLlm = redactEvent(llm, config);
+  assert.deepEqual(redactedLlm.payload, llm.payload);
+  assert.equal(redactedLlm.redactions, undefined);
+  
+  assert.deepEqual(redactEvent(custom, config).payload, { name: 'usage', total_tokens: '[REDACTED]' });
+});
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+/**
+ * Erase Events CLI
+ *
+ * Removes every event of one data subject from the event file and its
+ * rotated segments, and appends an audit record to <name>.erasures.jsonl.
+ *
+ * Usage:
+ *   npm run erase -- --session <id>                  # Erase a session
+ *   npm run erase -- --metadata customer_id=c-42     # Erase by metadata field
+ *   npm run erase -- --session <id> --dry-run        # Count matches only
+ *   npm run erase -- -f ./data/other.jsonl ...       # Another event file
+ *
+ * Encrypted files are read with the keys in TELEMETRY_ENCRYPTION_KEYS. The
+ * audit digest is keyed with TELEMETRY_ERASURE_DIGEST_KEY when it is set.
+ * Exits with code 2 when some lines could not be read, as they may still
+ * hold the subject's events.
+ *
+ * Only the event file and its segments are covered. Copies of events in the
+ * HTTP outbox (TELEMETRY_HTTP_OUTBOX_DIR, including dead-letter.jsonl), the
+ * paused and in-flight execution state (TELEMETRY_PAUSED_STATE_DIR,
+ * TELEMETRY_STATE_DIR) and anything already sent to HTTP or OTLP endpoints
+ * are left as they are.
+ */
+
+const path = require('path');
+const DEFAULT_FILE_PATH = './data/events.jsonl';
+
+function usage(message) {
+  if (message) console.error(`${message}\n`);
+  console.error('Usage: npm run erase -- [--session <id>] [--metadata key=value ...] [--dry-run] [-f <file>]');
+  console.error('\nErases from the event file and its rotated segments only: the HTTP outbox and its');
+  console.error('dead-letter.jsonl, paused and in-flight execution state, and events already sent');
+  console.error('to HTTP or OTLP endpoints are not covered.');
+  process.exit(1);
+}
+
+/**
+ * Metadata values are read as JSON when they parse (numbers, booleans), else as strings
+ */
+function parseValue(text) {
+  try { return JSON.parse(text); } catch { return text; }
+}
+
+// Parse args
+const args = process.argv.slice(2);
+const options = { file: DEFAULT_FILE_PATH, metadata: {}, dryRun: false };
+
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '-f' || args[i] === '--file') options.file = args[++i];
+  else if (args[i] === '-s' || args[i] === '--session') options.session = args[++i];
+  else if (args[i] === '-m' || args[i] === '--metadata') {
+    const [key, ...value] = (args[++i] || '').split('=');
+    if (!key || value.length === 0) usage(`Invalid metadata filter: ${args[i]}`);
+    options.metadata[key] = parseValue(value.join('='));
+  }
+  else if (args[i] === '--dry-run') options.dryRun = true;
+  else usage(`Unknown option: ${args[i]}`);
+}
+
+const filter = {
+  session_id: options.session,
+  metadata: Object.keys(options.metadata).length > 0 ? options.metadata : undefined,
+};
+if (!filter.session_id && !filter.metadata) usage('Give a --session or --metadata filter.');
+
+let core;
+try {
+  core = require(path.join(__dirname, '../packages/telemetry-core/dist/index.js'));
+} catch {
+  console.error('Core package not built. Run `npm run build:core` first.');
+  process.exit(1);
+}
+
+async function countMatches(transport) {
+  let count = 0;
+  let cursor;
+  do {
+    const page = await transport.query({ ...filter, limit: 1000, cursor });
+    count += page.events.length;
+    cursor = page.next_cursor;
+  } while (cursor);
+  return count;
+}
+
+async function main() {
+  const keys = (process.env.TELEMETRY_ENCRYPTION_KEYS || '').split(',').filter(entry => entry.trim());
+  const transport = new core.FileTransport({
+    filePath: options.file,
+    createDir: false,
+    redactPayloads: false,
+    encryption: keys.length > 0 ? { keys: core.parseEncryptionKeys(keys) } : undefined,
+    erasureDigestKey: process.env.TELEMETRY_ERASURE_DIGEST_KEY || undefined,
+  });
+
+  try {
+    if (options.dryRun) {
+      console.log(`${await countMatches(transport)} event(s) would be erased from ${options.file}`);
+      return;
+    }
+
+    const record = await transport.erase(filter);
+    console.log(`Erased ${record.events_removed} event(s) from ${record.files_rewritten} file(s)`);
+    console.log(JSON.stringify(record, null, 2));
+    
+    if (record.unreadable_lines > 0) {
+      console.error(`Warning: ${record.unreadable_lines} line(s) could not be read and were kept; check TELEMETRY_ENCRYPTION_KEYS and erase again`);
+      process.exitCode = 2;
+    }
+  } finally {
+    await transport.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Erasure failed:', error.message);
+  process.exit(1);
+});
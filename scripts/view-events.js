@@ -8,9 +8,12 @@
  *   npm run view -- --execution <id>       # Filter by execution ID
  *   npm run view -- --summary              # Show summary only
  *   npm run view -- --timeline -e <id>     # Show timeline view
+ *
+ * Events are read from the file and its rotated segments, compressed or
+ * not. Encrypted lines are decrypted with the keys in TELEMETRY_ENCRYPTION_KEYS.
  */
 
-const fs = require('fs');
+const path = require('path');
 const DEFAULT_FILE_PATH = './data/events.jsonl';
 
 const colors = {
@@ -21,15 +24,29 @@ const colors = {
 
 const colorize = (text, color) => `${colors[color]}${text}${colors.reset}`;
 
-function readEvents(filePath) {
-  if (!fs.existsSync(filePath)) {
-    console.error(`File not found: ${filePath}`);
-    process.exit(1);
+let core;
+try {
+  core = require(path.join(__dirname, '../packages/telemetry-core/dist/index.js'));
+} catch {
+  console.error('Core package not built. Run `npm run build:core` first.');
+  process.exit(1);
+}
+
+/**
+ * Every segment of the event file, read the way the FileTransport reads it
+ */
+async function readEvents(filePath, keys) {
+  const transport = new core.FileTransport({
+    filePath,
+    createDir: false,
+    encryption: keys.length > 0 ? { keys: core.parseEncryptionKeys(keys) } : undefined,
+  });
+  
+  try {
+    return await transport.readFromFile();
+  } finally {
+    await transport.close();
   }
-  return fs.readFileSync(filePath, 'utf-8').trim().split('\n')
-    .filter(line => line.trim())
-    .map(line => { try { return JSON.parse(line); } catch { return null; } })
-    .filter(Boolean);
 }
 
 function formatDuration(ms) {
@@ -37,6 +54,16 @@ function formatDuration(ms) {
   return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
 }
 
+function formatFinding(f) {
+  const color = f.severity === 'error' ? 'red' : f.severity === 'warning' ? 'yellow' : 'green';
+  const points = f.points > 0 ? `+${f.points}` : `${f.points}`;
+  let text = `${colorize(points.padStart(4), color)} ${f.rule_id}`;
+  if (f.node_name) text += ` [${f.node_name}${f.run_index ? ` (run ${f.run_index + 1})` : ''}]`;
+  text += `: ${f.message}`;
+  if (f.measured !== undefined && f.threshold !== undefined) text += colorize(` (${f.measured} / ${f.threshold})`, 'dim');
+  return text;
+}
+
 function displaySummary(events) {
   const executions = new Map();
   for (const e of events) {
@@ -53,12 +80,17 @@ function displaySummary(events) {
   console.log(`Unique Executions: ${executions.size}\n`);
   
   for (const [execId, exec] of executions) {
-    const end = exec.events.find(e => e.event_type.includes('workflow.completed') || e.event_type.includes('workflow.failed'));
-    const status = end?.status || 'unknown';
+    const end = exec.events.find(e => e.event_type.includes('workflow.completed') || e.event_type.includes('workflow.failed') || e.event_type.includes('workflow.abandoned'));
+    const lastWorkflowEvent = exec.events.filter(e => e.event_type.startsWith('workflow.')).pop();
+    const status = end?.status || (lastWorkflowEvent?.status === 'paused' ? 'paused' : 'unknown');
     const statusCol = status === 'completed' ? 'green' : status === 'failed' ? 'red' : 'yellow';
     
     console.log(colorize(exec.workflow_name || 'Unknown', 'bright'));
     console.log(`  ID: ${execId.substring(0, 8)}...  Status: ${colorize(status, statusCol)}  Duration: ${formatDuration(end?.duration_ms)}`);
+    const parent = exec.events.find(e => e.parent_execution_id);
+    if (parent) {
+      console.log(`  Called by: ${parent.parent_execution_id.substring(0, 8)}...${parent.parent_node_name ? ` (${parent.parent_node_name})` : ''}`);
+    }
     if (exec.eval) {
       const score = exec.eval.payload.score;
       console.log(`  Score: ${colorize(score, score >= 70 ? 'green' : score >= 40 ? 'yellow' : 'red')}/100  Labels: ${exec.eval.payload.labels.join(', ') || 'none'}`);
@@ -77,17 +109,22 @@ function displayTimeline(events, executionId) {
   
   for (const e of execEvents) {
     const time = new Date(e.timestamp).toLocaleTimeString('en-US', { hour12: false });
-    const icon = e.status === 'completed' ? '●' : e.status === 'failed' ? '✗' : '○';
-    const statCol = e.status === 'completed' ? 'green' : e.status === 'failed' ? 'red' : 'blue';
+    const icon = e.status === 'completed' ? '●' : e.status === 'failed' ? '✗' : e.status === 'abandoned' ? '⊘' : e.status === 'paused' ? '‖' : '○';
+    const statCol = e.status === 'completed' ? 'green' : e.status === 'failed' ? 'red' : e.status === 'abandoned' || e.status === 'paused' ? 'yellow' : 'blue';
     
     let line = `${time} ${colorize(icon, statCol)} ${e.event_type}`;
     if (e.node_context) line += ` - ${e.node_context.node_name}`;
+    if (e.node_context?.run_index) line += ` (run ${e.node_context.run_index + 1})`;
     if (e.duration_ms !== undefined) line += ` (${formatDuration(e.duration_ms)})`;
     console.log(line);
     
     if (e.event_type === 'eval.completed') {
       console.log(`         Score: ${e.payload.score}/100`);
-      e.payload.reasons.forEach(r => console.log(`         → ${r}`));
+      if (e.payload.findings) {
+        e.payload.findings.forEach(f => console.log(`         → ${formatFinding(f)}`));
+      } else {
+        e.payload.reasons.forEach(r => console.log(`         → ${r}`));
+      }
     }
   }
   console.log();
@@ -114,11 +151,22 @@ for (let i = 0; i < args.length; i++) {
   if (args[i] === '--timeline') options.timeline = true;
 }
 
-const events = readEvents(options.file);
-if (!events.length) { console.log('No events found.'); process.exit(0); }
-
-let filtered = options.execution ? events.filter(e => e.execution_id === options.execution) : events;
+async function main() {
+  const keys = (process.env.TELEMETRY_ENCRYPTION_KEYS || '').split(',').filter(entry => entry.trim());
+  const events = await readEvents(options.file, keys);
+  if (!events.length) {
+    console.log(keys.length ? 'No events found.' : 'No events found. Set TELEMETRY_ENCRYPTION_KEYS if the file is encrypted.');
+    return;
+  }
+  
+  const filtered = options.execution ? events.filter(e => e.execution_id === options.execution) : events;
+  
+  if (options.timeline && options.execution) displayTimeline(events, options.execution);
+  else if (options.summary) displaySummary(filtered);
+  else displayEvents(filtered);
+}
 
-if (options.timeline && options.execution) displayTimeline(events, options.execution);
-else if (options.summary) displaySummary(filtered);
-else displayEvents(filtered);
+main().catch(error => {
+  console.error('Reading events failed:', error.message);
+  process.exit(1);
+});